@@ -1,9 +1,8 @@
 import { EmailConfig } from './types';
+import { PaymentMethod } from './types/ecpayTypes';
 import * as dotenv from 'dotenv';
-import { readFileSync } from 'fs';
 
 dotenv.config();
-const googleServiceAccountKey = JSON.parse(readFileSync('./twfinancelaborunion-7e56bfe6d2f4.json', 'utf8'));
 
 export const config = {
   // Gmail SMTP configuration
@@ -20,6 +19,14 @@ export const config = {
   mail: {
     subject: process.env.EMAIL_SUBJECT!,
     paymentPath: process.env.EMAIL_PAYMENT_URL_PATH!,
+    paymentInfoSubject: process.env.EMAIL_PAYMENT_INFO_SUBJECT || '會費繳費資訊',
+    receiptSubject: process.env.EMAIL_RECEIPT_SUBJECT || '會費繳費確認',
+    subscriptionSubject: process.env.EMAIL_SUBSCRIPTION_SUBJECT || '會費定期定額扣款設定完成',
+    // Like EMAIL_PAYMENT_URL_PATH, for the subscription cancel page: https://<host>/payment/subscription/cancel?
+    subscriptionCancelPath: process.env.EMAIL_SUBSCRIPTION_CANCEL_URL_PATH || '',
+    reminderSubject: process.env.EMAIL_REMINDER_SUBJECT || '會費繳費提醒',
+    // Directory of <name>.subject.txt / <name>.txt / <name>.html files replacing the built-in email templates
+    templateDir: process.env.EMAIL_TEMPLATE_DIR || '',
   },
 
   // Google API configuration
@@ -30,8 +37,16 @@ export const config = {
 
   googleSheet: {
     spreadsheetId: process.env.GOOGLE_SHEET_SPREEDSHEET_ID!,
-    privateKey: googleServiceAccountKey.private_key,
-    clientEmail: googleServiceAccountKey.client_email,
+    // Service account key file, only read when STORAGE_BACKEND is sheets
+    serviceAccountKeyPath: process.env.GOOGLE_SERVICE_ACCOUNT_KEY_PATH || './twfinancelaborunion-7e56bfe6d2f4.json',
+    // Spreadsheet metadata (the sheet list) is reloaded when older than this
+    metadataTtlSeconds: Number(process.env.GOOGLE_SHEET_METADATA_TTL_SECONDS) || 300,
+  },
+
+  // Storage backend: sheets (Google Sheets) | sqlite (file) | memory (tests, lost on restart)
+  storage: {
+    backend: (process.env.STORAGE_BACKEND || 'sheets') as 'sheets' | 'sqlite' | 'memory',
+    sqlitePath: process.env.SQLITE_PATH || './data/union.sqlite',
   },
 
   // Application configuration
@@ -41,16 +56,73 @@ export const config = {
     port: process.env.PORT || 3000,
   },
 
+  // Key the admin endpoints require in the x-api-key header, they refuse every request while it is unset
+  admin: {
+    apiKey: process.env.ADMIN_API_KEY || '',
+  },
+
+  // HMAC-signed payment link tokens sent to members
+  paymentLink: {
+    secret: process.env.PAYMENT_LINK_SECRET || '',
+    ttlDays: Number(process.env.PAYMENT_LINK_TTL_DAYS) || 45,
+  },
+
+  // Payment redirect page branding
+  page: {
+    unionName: process.env.UNION_NAME || '',
+    logoUrl: process.env.PAYMENT_PAGE_LOGO_URL || '',
+    // Custom HTML template replacing src/templates/paymentRedirectTemplate.ts
+    paymentTemplatePath: process.env.PAYMENT_PAGE_TEMPLATE_PATH || '',
+  },
+
   ecpay: {
     operationMode: (process.env.ECPAY_OPERATION_MODE as 'Test' | 'Production') || 'Test',
     merchantId: process.env.ECPAY_MERCHANT_ID!,
     hashKey: process.env.ECPAY_HASH_KEY!,
     hashIV: process.env.ECPAY_HASH_IV!,
+    // Overrides the stage / production host, e.g. http://localhost:8090 for the local mock server
+    apiBaseUrl: process.env.ECPAY_API_BASE_URL || '',
     returnURL: process.env.ECPAY_RETURN_URL || '',
+    paymentInfoURL: process.env.ECPAY_PAYMENT_INFO_URL || '',
+    clientBackURL: process.env.ECPAY_CLIENT_BACK_URL || '',
+    // Default ChoosePayment, and the methods a member may pick with ?choosePayment= (comma separated)
+    choosePayment: (process.env.ECPAY_CHOOSE_PAYMENT as PaymentMethod) || 'ALL',
+    allowedPaymentMethods: (process.env.ECPAY_ALLOWED_PAYMENT_METHODS || 'ALL,Credit,WebATM,ATM,CVS,BARCODE').split(
+      ',',
+    ) as PaymentMethod[],
+    periodReturnURL: process.env.ECPAY_PERIOD_RETURN_URL || '',
+    // Monthly subscriptions, ECPay allows at most 99 executions for PeriodType M
+    periodExecTimes: Number(process.env.ECPAY_PERIOD_EXEC_TIMES) || 99,
     totalAmount: process.env.ECPAY_PAYMENT_LINK_TOTAL_AMOUNT!,
     tradeDesc: process.env.ECPAY_PAYMENT_LINK_TRADE_DESC!,
     itemName: process.env.ECPAY_PAYMENT_LINK_ITEM_NAME!,
   },
+
+  // ECPay B2C e-invoice, uses its own MerchantID / HashKey / HashIV
+  einvoice: {
+    merchantId: process.env.ECPAY_EINVOICE_MERCHANT_ID || '',
+    hashKey: process.env.ECPAY_EINVOICE_HASH_KEY || '',
+    hashIV: process.env.ECPAY_EINVOICE_HASH_IV || '',
+    // 1: taxable, 3: tax-free
+    taxType: process.env.ECPAY_EINVOICE_TAX_TYPE || '1',
+    // When set, invoices are donated to this love code instead of stored in the member's ECPay carrier
+    loveCode: process.env.ECPAY_EINVOICE_LOVE_CODE || '',
+  },
+
+  dues: {
+    // Tier applied to members whose dues_tier cell in All_members is blank
+    defaultTier: process.env.DUES_DEFAULT_TIER || 'full_time',
+    // Number of months a member may prepay in one trade (?months=), and the discount for 12 months or more
+    prepayMonths: (process.env.DUES_PREPAY_MONTHS || '1,3,6,12').split(',').map(Number),
+    annualDiscountPercent: Number(process.env.DUES_ANNUAL_DISCOUNT_PERCENT) || 0,
+    // Day of the month dues are due (due_date in emails), 0 for the last day of the month
+    dueDay: Number(process.env.DUES_DUE_DAY) || 0,
+  },
+
+  // Reminders to members who haven't paid, sent this many days after the payment link email (comma separated)
+  reminders: {
+    scheduleDays: (process.env.REMINDER_SCHEDULE_DAYS || '7,14,21').split(',').map(Number),
+  },
 };
 
 export default config;
@@ -1,26 +1,112 @@
 import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
-import { HelloResponse, ApiResponse, BatchEmailSentData } from '../types';
+import { HelloResponse, ApiResponse, BatchEmailSentData, ScheduledTaskEvent } from '../types';
 import { CSVService } from '../services/csvService';
 import { EmailService } from '../services/emailService';
-import { GoogleSheetsService, PaymentRecord } from '../services/googleSheetService';
-import { ECPayService } from '../services/ecpayService';
+import { createRepository } from '../services/repositoryFactory';
+import { ECPayService, TRADE_NO_MEMBER_ID_PATTERN } from '../services/ecpayService';
+import { ReconciliationService } from '../services/reconciliationService';
+import { EInvoiceService } from '../services/einvoiceService';
+import { ReceiptService } from '../services/receiptService';
+import { LedgerService } from '../services/ledgerService';
+import { TemplateService } from '../services/templateService';
+import { PaymentLinkPayload, PaymentLinkTokenService } from '../services/paymentLinkTokenService';
+import { PaymentLinkService } from '../services/paymentLinkService';
+import { MemberService } from '../services/memberService';
+import { ArrearsService } from '../services/arrearsService';
+import { EmailTemplateService } from '../services/emailTemplateService';
+import { ReminderService } from '../services/reminderService';
+import { isAdminRequest, isAdminRoute } from '../services/adminAuth';
+import { EMAIL_TEMPLATE_NAMES } from '../templates/emailTemplates';
+import { Locale } from '../templates/paymentRedirectTemplate';
+import {
+  CreditAction,
+  PaymentCallback,
+  PaymentInfoCallback,
+  PaymentMethod,
+  PeriodCallback,
+  QueryTradeInfo,
+} from '../types/ecpayTypes';
+import {
+  AuditRepository,
+  MEMBER_FIELDS,
+  MEMBER_STATUSES,
+  MemberData,
+  MemberRepository,
+  MemberStatus,
+  PaymentRecord,
+  PaymentRepository,
+  SchemaMigrator,
+  StorageLifecycle,
+  TradeNoRecord,
+} from '../types/repositoryTypes';
 import config from '../configs';
 
+type TradeForm = Pick<TradeNoRecord, 'amount' | 'payment_method' | 'covered_months' | 'subscribe'>;
+
 export class ApiHandler {
   private emailService: EmailService;
-  private googleSheetService: GoogleSheetsService;
+  private paymentRepository: PaymentRepository;
+  private memberRepository: MemberRepository;
+  private schemaMigrator: SchemaMigrator;
+  private auditRepository: AuditRepository;
+  private storageLifecycle: StorageLifecycle;
   private ecPayService: ECPayService;
+  private reconciliationService: ReconciliationService;
+  private receiptService: ReceiptService;
+  private ledgerService: LedgerService;
+  private templateService: TemplateService;
+  private paymentLinkTokenService: PaymentLinkTokenService;
+  private paymentLinkService: PaymentLinkService;
+  private memberService: MemberService;
+  private arrearsService: ArrearsService;
+  private emailTemplateService: EmailTemplateService;
+  private reminderService: ReminderService;
 
   constructor() {
     // this.csvService = new CSVService();
     this.emailService = new EmailService();
     // console.log(config.googleSheet.spreadsheetId);
-    // console.log(config.googleSheet.privateKey);
-    this.googleSheetService = new GoogleSheetsService(config.googleSheet.spreadsheetId, {
-      clientEmail: config.googleSheet.clientEmail,
-      privateKey: config.googleSheet.privateKey,
-    });
+    const repository = createRepository();
+    this.paymentRepository = repository;
+    this.memberRepository = repository;
+    this.schemaMigrator = repository;
+    this.auditRepository = repository;
+    this.storageLifecycle = repository;
     this.ecPayService = new ECPayService();
+    this.templateService = new TemplateService();
+    this.paymentLinkTokenService = new PaymentLinkTokenService();
+    this.paymentLinkService = new PaymentLinkService(
+      this.paymentRepository,
+      this.memberRepository,
+      this.paymentLinkTokenService,
+    );
+    this.memberService = new MemberService(this.memberRepository);
+    this.arrearsService = new ArrearsService(this.paymentRepository);
+    this.emailTemplateService = new EmailTemplateService(
+      repository,
+      this.paymentRepository,
+      this.memberRepository,
+      this.templateService,
+    );
+    this.receiptService = new ReceiptService(
+      this.paymentRepository,
+      new EInvoiceService(),
+      this.emailService,
+      this.emailTemplateService,
+    );
+    this.reminderService = new ReminderService(
+      this.paymentRepository,
+      this.memberRepository,
+      this.emailService,
+      this.emailTemplateService,
+    );
+    this.ledgerService = new LedgerService(this.paymentRepository, this.ecPayService);
+    this.reconciliationService = new ReconciliationService(
+      this.paymentRepository,
+      this.ecPayService,
+      this.receiptService,
+      this.ledgerService,
+    );
   }
 
   /**
@@ -32,20 +118,143 @@ export class ApiHandler {
       headers: {
         'Content-Type': 'application/json',
         'Access-Control-Allow-Origin': '*',
-        'Access-Control-Allow-Headers': 'Content-Type',
+        'Access-Control-Allow-Headers': 'Content-Type, x-api-key',
         'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
       },
-      body: body,
+      body: typeof body === 'string' ? body : JSON.stringify(body),
+    };
+  }
+
+  /**
+   * HTML page response (payment redirect page)
+   */
+  private createHtmlResponse(statusCode: number, html: string): APIGatewayProxyResult {
+    return {
+      statusCode,
+      headers: {
+        'Content-Type': 'text/html; charset=utf-8',
+      },
+      body: html,
+    };
+  }
+
+  /**
+   * Plain text response, ECPay expects `1|OK` as the raw body of a callback reply
+   */
+  private createTextResponse(statusCode: number, text: string): APIGatewayProxyResult {
+    return {
+      statusCode,
+      headers: {
+        'Content-Type': 'text/plain; charset=utf-8',
+      },
+      body: text,
+    };
+  }
+
+  /**
+   * CSV file download response
+   */
+  private createCsvResponse(filename: string, csv: string): APIGatewayProxyResult {
+    return {
+      statusCode: 200,
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+      },
+      // BOM, so Excel opens the UTF-8 file correctly
+      body: `\uFEFF${csv}`,
     };
   }
 
   /**
-   * Hello endpoint handler
+   * Parse a form-encoded request body (ECPay server-to-server notifications).
+   * The local express server has already parsed the form and re-serialized it as JSON.
+   */
+  private parseFormBody(event: APIGatewayProxyEvent): Record<string, string> {
+    if (!event.body) return {};
+
+    const raw = event.isBase64Encoded ? Buffer.from(event.body, 'base64').toString('utf8') : event.body;
+    if (raw.trim().startsWith('{')) {
+      return JSON.parse(raw);
+    }
+
+    return Object.fromEntries(new URLSearchParams(raw));
+  }
+
+  /**
+   * Verify a signed payment link token, or build the response telling the member why it can't be used
+   */
+  private verifyPaymentLink(paymentLink: string): PaymentLinkPayload | APIGatewayProxyResult {
+    const result = this.paymentLinkTokenService.verify(paymentLink);
+    if (result.valid) {
+      return result.payload;
+    }
+
+    if (result.reason === 'expired') {
+      console.warn(`⚠️  Expired payment link of member:${result.payload?.memberId} ${result.payload?.yyyymm}`);
+      return this.createResponse(410, {
+        success: false,
+        message: 'payment link expired, please request a new one',
+        reissuePath: '/payment/link/reissue',
+      });
+    }
+
+    console.warn(`⚠️  Invalid payment link:${paymentLink}`);
+    return this.createResponse(403, {
+      success: false,
+      message: 'invalid payment link',
+    });
+  }
+
+  /**
+   * The response refusing an admin endpoint request without the admin API key, undefined when it may proceed
+   */
+  private requireAdmin(event: APIGatewayProxyEvent): APIGatewayProxyResult | undefined {
+    return isAdminRoute(event.httpMethod, event.path) ? this.requireAdminKey(event) : undefined;
+  }
+
+  /**
+   * The response refusing a request without the admin API key, undefined when it carries the key
+   */
+  private requireAdminKey(event: APIGatewayProxyEvent): APIGatewayProxyResult | undefined {
+    if (isAdminRequest(event.headers)) {
+      return undefined;
+    }
+
+    if (!config.admin.apiKey) {
+      console.error(`❌ ADMIN_API_KEY not set, refused ${event.httpMethod} ${event.path}`);
+      return this.createResponse(503, {
+        success: false,
+        message: 'Admin endpoints are not available. Please set ADMIN_API_KEY.',
+      });
+    }
+    console.warn(`⚠️  Unauthorized admin request ${event.httpMethod} ${event.path}`);
+    return this.createResponse(401, {
+      success: false,
+      message: 'admin API key required',
+    });
+  }
+
+  /**
+   * Load storage metadata before the first request. Failures are logged, not thrown:
+   * requests retry the load and /hello reports it.
+   */
+  async initialize(): Promise<void> {
+    try {
+      await this.storageLifecycle.initialize();
+    } catch (error) {
+      console.error('❌ Storage initialization failed:', error);
+    }
+  }
+
+  /**
+   * Hello endpoint handler, also the readiness check: 503 while storage can't be loaded
    */
   async handleHello(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
     try {
+      const storage = await this.storageLifecycle.getReadiness();
       const response: HelloResponse = {
-        success: true,
+        success: storage.ready,
         message: 'Hello from AWS Lambda!',
         timestamp: new Date().toISOString(),
         version: config.app.version,
@@ -53,6 +262,7 @@ export class ApiHandler {
           method: event.httpMethod,
           path: event.path,
           services: {
+            storage,
             email: {
               available: this.emailService.isConnected(),
               connectionInfo: this.emailService.getConnectionInfo(),
@@ -67,7 +277,7 @@ export class ApiHandler {
         },
       };
 
-      return this.createResponse(200, response);
+      return this.createResponse(storage.ready ? 200 : 503, response);
     } catch (error) {
       console.error('Error in hello handler:', error);
       return this.createResponse(500, {
@@ -105,118 +315,932 @@ export class ApiHandler {
         // },
       };
 
-      return this.createResponse(200, response);
+      return this.createResponse(200, response);
+    } catch (error) {
+      console.error('Error in hello handler:', error);
+      return this.createResponse(500, {
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  }
+
+  /**
+   * Create the ECPay payment form for a member's month, or for `months` consecutive months starting with it.
+   * With subscribe, the form sets up a monthly credit card periodic authorization starting with this month.
+   * With outstanding, the form also pays every earlier unpaid month ("pay all outstanding").
+   */
+  async getUniquePaymentLink(
+    paymentLink: PaymentLinkPayload,
+    options: {
+      choosePayment?: string;
+      subscribe?: boolean;
+      months?: number;
+      outstanding?: boolean;
+      locale?: Locale;
+    } = {},
+  ): Promise<APIGatewayProxyResult> {
+    const { choosePayment, subscribe = false, months = 1, outstanding = false, locale } = options;
+    try {
+      // Periodic authorization is credit card only
+      const paymentMethod = subscribe ? 'Credit' : ((choosePayment || config.ecpay.choosePayment) as PaymentMethod);
+      if (!subscribe && !config.ecpay.allowedPaymentMethods.includes(paymentMethod)) {
+        return this.createResponse(400, {
+          success: false,
+          message: `payment method ${paymentMethod} not allowed`,
+        });
+      }
+      if (!config.dues.prepayMonths.includes(months) || (subscribe && months !== 1)) {
+        return this.createResponse(400, {
+          success: false,
+          message: `months must be one of ${config.dues.prepayMonths.join(', ')} and 1 for subscriptions`,
+        });
+      }
+      if (outstanding && (subscribe || months !== 1)) {
+        return this.createResponse(400, {
+          success: false,
+          message: 'outstanding months can only be paid without months or subscribe',
+        });
+      }
+
+      const { memberId, yyyymm: paymentLinkYYYYMM } = paymentLink;
+      // Ids registered before member_id was validated can't be part of a MerchantTradeNo
+      if (!TRADE_NO_MEMBER_ID_PATTERN.test(memberId)) {
+        console.warn(`⚠️  member_id:${memberId} doesn't fit in a MerchantTradeNo, fix it in All_members`);
+        return this.createResponse(422, {
+          success: false,
+          message: 'member id can not be used for online payment, please contact the union',
+        });
+      }
+
+      const record = await this.paymentRepository.getPaymentData(paymentLinkYYYYMM, memberId);
+      if (!record) {
+        return this.createResponse(404, {
+          success: false,
+          message: 'payment record not found',
+        });
+      }
+
+      // The dues were changed after the link was signed
+      if (record.amount_due && Number(record.amount_due) !== paymentLink.amount) {
+        return this.createResponse(409, {
+          success: false,
+          message: 'payment link is outdated, please request a new one',
+          reissuePath: '/payment/link/reissue',
+        });
+      }
+
+      if (record.paid === 'Y') {
+        return this.createHtmlResponse(
+          200,
+          this.templateService.renderPaymentStatus(
+            'paid',
+            { yyyymm: paymentLinkYYYYMM, date: record.paid_date || '' },
+            locale || 'zh-TW',
+          ),
+        );
+      }
+
+      if (subscribe) {
+        const subscriptions = await this.paymentRepository.getSubscriptions();
+        if (subscriptions.some((sub) => sub.member_id === memberId && sub.status === 'active')) {
+          return this.createResponse(400, {
+            success: false,
+            message: 'member already has an active subscription',
+          });
+        }
+      }
+
+      const monthlyAmount = paymentLink.amount;
+      let coveredMonths = this.getCoveredMonths(paymentLinkYYYYMM, months);
+      // Later months already paid (e.g. by an earlier prepayment) are neither covered nor charged again
+      const unpaidMonths = [paymentLinkYYYYMM];
+      for (const yyyymm of coveredMonths.slice(1)) {
+        const covered = await this.paymentRepository.getPaymentData(yyyymm, memberId);
+        if (covered?.paid !== 'Y') unpaidMonths.push(yyyymm);
+      }
+      const skipsPaidMonths = unpaidMonths.length < coveredMonths.length;
+      coveredMonths = unpaidMonths;
+
+      let totalAmount = monthlyAmount * coveredMonths.length;
+      if (coveredMonths.length >= 12 && config.dues.annualDiscountPercent > 0) {
+        totalAmount = Math.round((totalAmount * (100 - config.dues.annualDiscountPercent)) / 100);
+      }
+      let itemName = record.item_name || config.ecpay.itemName;
+      if (coveredMonths.length > 1) {
+        itemName = skipsPaidMonths
+          ? `${itemName} ${coveredMonths.join(',')}`
+          : `${itemName} ${coveredMonths[0]}-${coveredMonths[coveredMonths.length - 1]}`;
+      }
+
+      if (outstanding) {
+        // The trade stays on this month's record, the overdue months are marked paid with it
+        const arrears = await this.arrearsService.getMemberArrears(memberId, paymentLinkYYYYMM);
+        const overdue = (arrears?.months || []).filter((m) => m.yyyymm < paymentLinkYYYYMM);
+        if (overdue.length > 0) {
+          coveredMonths = [paymentLinkYYYYMM, ...overdue.map((m) => m.yyyymm)];
+          totalAmount = monthlyAmount + overdue.reduce((sum, m) => sum + m.amount_due, 0);
+          itemName = `${itemName} ${[...coveredMonths].sort().join(',')}`;
+        }
+      }
+
+      const form: TradeForm = {
+        amount: totalAmount.toString(),
+        payment_method: paymentMethod,
+        covered_months: coveredMonths.length > 1 ? coveredMonths.join(',') : '',
+        subscribe: subscribe ? 'Y' : '',
+      };
+      const trades = await this.paymentRepository.getIssuedTrades(memberId, paymentLinkYYYYMM);
+      const reusable = await this.findReusableTrade(record, paymentLinkYYYYMM, form, trades, locale || 'zh-TW');
+      if (reusable.response) {
+        return reusable.response;
+      }
+
+      const uniquePaymentLink =
+        reusable.merchantTradeNo || (await this.issueMerchantTradeNo(memberId, paymentLinkYYYYMM, form, trades));
+      console.log(`memberId:${memberId} uniquePaymentLink:${uniquePaymentLink} reused:${!!reusable.merchantTradeNo}`);
+
+      const paymentResult = await this.ecPayService.createPaymentForm({
+        merchantTradeNo: uniquePaymentLink,
+        totalAmount,
+        tradeDesc: config.ecpay.tradeDesc,
+        itemName,
+        returnURL: config.ecpay.returnURL,
+        clientBackURL: config.ecpay.clientBackURL || undefined,
+        paymentInfoURL: config.ecpay.paymentInfoURL || undefined,
+        choosePayment: paymentMethod,
+        locale,
+        period: subscribe
+          ? {
+              periodAmount: totalAmount,
+              periodType: 'M',
+              frequency: 1,
+              execTimes: config.ecpay.periodExecTimes,
+              periodReturnURL: config.ecpay.periodReturnURL,
+            }
+          : undefined,
+      });
+
+      // write uniquePaymentLink to googlesheet, paid is never written here: a callback may mark the month paid
+      // at any moment, and the precondition below is not atomic across Lambda instances
+      const paymentRecord = {
+        payment_link: undefined,
+        payment_link_sent: undefined,
+        unique_payment_link: uniquePaymentLink,
+        covered_months: form.covered_months,
+      } as PaymentRecord;
+      // The month was paid since it was read: show that instead of the payment page
+      const written = await this.paymentRepository.updatePaymentData(
+        paymentLinkYYYYMM,
+        memberId,
+        paymentRecord,
+        (current) => current.paid !== 'Y',
+      );
+      if (!written) {
+        const paidRecord = await this.paymentRepository.getPaymentData(paymentLinkYYYYMM, memberId);
+        return this.createHtmlResponse(
+          200,
+          this.templateService.renderPaymentStatus(
+            'paid',
+            { yyyymm: paymentLinkYYYYMM, date: paidRecord?.paid_date || '' },
+            locale || 'zh-TW',
+          ),
+        );
+      }
+
+      // A reused trade already has its pending subscription
+      if (subscribe && !reusable.merchantTradeNo) {
+        // Becomes active once the first charge succeeds (see handlePaymentCallback)
+        await this.paymentRepository.addSubscription({
+          member_id: memberId,
+          member_email: record.member_email,
+          merchant_trade_no: uniquePaymentLink,
+          period_amount: totalAmount.toString(),
+          status: 'pending',
+          created_at: new Date().toISOString(),
+          cancelled_at: '',
+        });
+      }
+
+      return this.createHtmlResponse(200, paymentResult.redirectUrl);
+    } catch (error) {
+      console.log(error);
+      return this.createResponse(500, {
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  }
+
+  /**
+   * `months` consecutive yyyymm starting with (and including) start
+   */
+  private getCoveredMonths(start: string, months: number): string[] {
+    const year = Number(start.slice(0, 4));
+    const month = Number(start.slice(4)) - 1;
+    return Array.from({ length: months }, (_, i) => {
+      const date = new Date(year, month + i, 1);
+      return `${date.getFullYear()}${(date.getMonth() + 1).toString().padStart(2, '0')}`;
+    });
+  }
+
+  /**
+   * Look at the month's latest unpaid trade before issuing a new one:
+   * - its offline payment info (ATM / CVS) is still payable: show that instead of a new form
+   * - ECPay reports it paid (the notification was lost): record it and show it's paid
+   * - ECPay never received its form, and it was issued for the same form: reuse its number
+   */
+  private async findReusableTrade(
+    record: PaymentRecord,
+    yyyymm: string,
+    form: TradeForm,
+    trades: TradeNoRecord[],
+    locale: Locale,
+  ): Promise<{ response?: APIGatewayProxyResult; merchantTradeNo?: string }> {
+    const latest = trades.filter((t) => t.status !== 'paid').pop();
+    if (!latest) return {};
+
+    if (
+      record.unique_payment_link === latest.merchant_trade_no &&
+      record.payment_info &&
+      this.isStillPayable(record.payment_expire_date)
+    ) {
+      console.log(`member:${record.member_id} has pending offline payment ${latest.merchant_trade_no}`);
+      return {
+        response: this.createHtmlResponse(
+          200,
+          this.templateService.renderPaymentStatus(
+            'pending',
+            { yyyymm, date: record.payment_expire_date || '', details: record.payment_info },
+            locale,
+          ),
+        ),
+      };
+    }
+
+    let info: QueryTradeInfo;
+    try {
+      info = await this.ecPayService.queryECPay(latest.merchant_trade_no);
+    } catch (error) {
+      console.error(`❌ Error querying ${latest.merchant_trade_no}, issue a new trade:`, error);
+      return {};
+    }
+
+    if (info.TradeStatus === '1') {
+      console.warn(`⚠️  ${latest.merchant_trade_no} was paid but never recorded, record it now`);
+      await this.reconciliationService.settlePaidTrade(yyyymm, record, latest.merchant_trade_no, info);
+      return {
+        response: this.createHtmlResponse(
+          200,
+          this.templateService.renderPaymentStatus('paid', { yyyymm, date: info.PaymentDate }, locale),
+        ),
+      };
+    }
+
+    // 10200047: ECPay has no such trade, the member never submitted the form
+    const isSameForm =
+      latest.amount === form.amount &&
+      latest.payment_method === form.payment_method &&
+      latest.covered_months === form.covered_months &&
+      latest.subscribe === form.subscribe;
+    if (info.TradeStatus === '10200047' && isSameForm) {
+      return { merchantTradeNo: latest.merchant_trade_no };
+    }
+
+    // Created at ECPay but unpaid (e.g. an abandoned card payment), ECPay refuses the same number twice
+    return {};
+  }
+
+  /**
+   * ECPay ExpireDate is yyyy/MM/dd (payable through that day) or yyyy/MM/dd HH:mm:ss
+   */
+  private isStillPayable(expireDate: string | undefined): boolean {
+    if (!expireDate) return false;
+
+    const expiresAt = new Date(expireDate.length <= 10 ? `${expireDate} 23:59:59` : expireDate);
+    return expiresAt.getTime() > Date.now();
+  }
+
+  /**
+   * Generate a MerchantTradeNo that has never been issued before and record it as issued.
+   * Only the month's own trades can hold the same number; two clicks racing between the check and the add
+   * would also have to draw the same random part (1 in 36^4), and ECPay refuses a number it has seen.
+   */
+  private async issueMerchantTradeNo(
+    memberId: string,
+    yyyymm: string,
+    form: TradeForm,
+    trades: TradeNoRecord[],
+  ): Promise<string> {
+    const issued = new Set(trades.map((trade) => trade.merchant_trade_no));
+
+    for (let attempt = 0; attempt < 5; attempt++) {
+      const merchantTradeNo = this.ecPayService.generateMerchantTradeNo(memberId, yyyymm);
+      if (issued.has(merchantTradeNo)) {
+        console.warn(`⚠️  MerchantTradeNo ${merchantTradeNo} already issued, regenerate`);
+        continue;
+      }
+
+      await this.paymentRepository.addIssuedTradeNo({
+        merchant_trade_no: merchantTradeNo,
+        member_id: memberId,
+        yyyymm,
+        issued_at: new Date().toISOString(),
+        ...form,
+        status: 'pending',
+        paid_date: '',
+      });
+      return merchantTradeNo;
+    }
+
+    throw new Error(`Failed to generate an unused MerchantTradeNo for ${memberId} ${yyyymm}`);
+  }
+
+  /**
+   * ECPay ReturnURL: server-to-server payment result notification.
+   * ECPay retries until it receives `1|OK`, so replays of an already recorded payment are acknowledged without writing.
+   */
+  async handlePaymentCallback(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+    try {
+      const callbackData = this.parseFormBody(event) as PaymentCallback;
+      const result = this.ecPayService.processCallback(callbackData);
+
+      if (!result.isValid) {
+        console.error('❌ Rejected forged ECPay callback:', JSON.stringify(callbackData));
+        return this.createTextResponse(400, '0|CheckMacValue Error');
+      }
+
+      if (!result.isSuccess) {
+        console.warn(`⚠️  ECPay reported failed payment for ${result.merchantTradeNo}: ${result.message}`);
+        return this.createTextResponse(200, '1|OK');
+      }
+
+      const { memberId, yyyymm } = this.ecPayService.parseMerchantTradeNo(result.merchantTradeNo);
+      const record = await this.paymentRepository.getPaymentData(yyyymm, memberId);
+      if (!record) {
+        console.error(`❌ No payment record for MerchantTradeNo:${result.merchantTradeNo} in sheet:${yyyymm}`);
+        return this.createTextResponse(404, '0|MerchantTradeNo not found');
+      }
+
+      // First charge of a periodic authorization
+      if (callbackData.PeriodType) {
+        await this.activateSubscription(yyyymm, record, result.merchantTradeNo);
+      }
+
+      if (record.paid === 'Y') {
+        // A receipt whose invoice was issued but not recorded is finished by the retried notification
+        if (record.invoice_relate_number && !record.invoice_no) {
+          await this.receiptService.issueReceipt(yyyymm, memberId);
+        }
+        console.log(`Payment ${result.merchantTradeNo} already recorded on ${record.paid_date}, skip`);
+        return this.createTextResponse(200, '1|OK');
+      }
+
+      // Any trade issued for the month may be the one paid, settlePaidTrade looks up its covered months
+      await this.reconciliationService.settlePaidTrade(yyyymm, record, result.merchantTradeNo, {
+        PaymentDate: result.paymentDate,
+        TradeAmt: result.amount.toString(),
+      });
+      console.log(`✅ member:${record.member_id} paid ${yyyymm} dues, MerchantTradeNo:${result.merchantTradeNo}`);
+
+      return this.createTextResponse(200, '1|OK');
+    } catch (error) {
+      console.error('Error in payment callback handler:', error);
+      return this.createTextResponse(500, '0|Internal server error');
+    }
+  }
+
+  /**
+   * ECPay PeriodReturnURL: one periodic credit card charge (2nd execution onwards).
+   * The charge pays the month of its ProcessDate, whose sheet or row may not exist yet.
+   */
+  async handlePeriodCallback(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+    try {
+      const periodData = this.parseFormBody(event) as PeriodCallback;
+      const result = this.ecPayService.processPeriodCallback(periodData);
+
+      if (!result.isValid) {
+        console.error('❌ Rejected forged ECPay period callback:', JSON.stringify(periodData));
+        return this.createTextResponse(400, '0|CheckMacValue Error');
+      }
+
+      if (!result.isSuccess) {
+        console.warn(`⚠️  ECPay reported failed periodic charge for ${result.merchantTradeNo}: ${result.message}`);
+        return this.createTextResponse(200, '1|OK');
+      }
+
+      const subscriptions = await this.paymentRepository.getSubscriptions();
+      const subscription = subscriptions.find((sub) => sub.merchant_trade_no === result.merchantTradeNo);
+      if (!subscription) {
+        console.error(`❌ No subscription for MerchantTradeNo:${result.merchantTradeNo}`);
+        return this.createTextResponse(404, '0|MerchantTradeNo not found');
+      }
+
+      // ProcessDate format: yyyy/MM/dd HH:mm:ss
+      const yyyymm = result.processDate.slice(0, 7).replace('/', '');
+      const record = await this.paymentRepository.getPaymentData(yyyymm, subscription.member_id);
+      if (record?.paid === 'Y') {
+        if (record.unique_payment_link !== result.merchantTradeNo) {
+          console.warn(
+            `⚠️  member:${subscription.member_id} already paid ${yyyymm} with ${record.unique_payment_link}`,
+          );
+        }
+        if (record.invoice_relate_number && !record.invoice_no) {
+          await this.receiptService.issueReceipt(yyyymm, subscription.member_id);
+        }
+        console.log(`Periodic charge of ${yyyymm} for ${result.merchantTradeNo} already recorded, skip`);
+        return this.createTextResponse(200, '1|OK');
+      }
+
+      await this.paymentRepository.upsertPaymentData(yyyymm, subscription.member_id, subscription.member_email, {
+        unique_payment_link: result.merchantTradeNo,
+        paid: 'Y',
+        paid_date: result.processDate,
+        paid_amount: result.amount.toString(),
+      });
+      console.log(
+        `✅ member:${subscription.member_id} paid ${yyyymm} dues by periodic charge #${result.totalSuccessTimes}`,
+      );
+      await this.ledgerService.recordPayment(yyyymm, subscription.member_id, result.merchantTradeNo, {
+        paymentDate: result.processDate,
+        amount: result.amount,
+      });
+      await this.receiptService.issueReceipt(yyyymm, subscription.member_id);
+
+      return this.createTextResponse(200, '1|OK');
+    } catch (error) {
+      console.error('Error in period callback handler:', error);
+      return this.createTextResponse(500, '0|Internal server error');
+    }
+  }
+
+  /**
+   * Mark a subscription active on its first charge and email the member its cancel link.
+   * Only a pending subscription is activated, ECPay replays the notification.
+   */
+  private async activateSubscription(yyyymm: string, record: PaymentRecord, merchantTradeNo: string): Promise<void> {
+    const subscriptions = await this.paymentRepository.getSubscriptions();
+    const subscription = subscriptions.find((sub) => sub.merchant_trade_no === merchantTradeNo);
+    if (subscription?.status !== 'pending') return;
+
+    await this.paymentRepository.updateSubscription(merchantTradeNo, { status: 'active' });
+    await this.sendSubscriptionCancelLink(yyyymm, record, merchantTradeNo);
+  }
+
+  /**
+   * Email a subscriber the link cancelling their subscription. Subscribers get no monthly payment links,
+   * so this is how they can cancel.
+   */
+  private async sendSubscriptionCancelLink(
+    yyyymm: string,
+    record: PaymentRecord,
+    merchantTradeNo: string,
+  ): Promise<boolean> {
+    const token = this.paymentLinkTokenService.signCancel(record.member_id, merchantTradeNo);
+    const email = await this.emailTemplateService.renderForMember('subscription', yyyymm, record, {
+      cancel_link: `${config.mail.subscriptionCancelPath}token=${token}`,
+    });
+    const emailResult = await this.emailService.sendEmail([record.member_email], email);
+    if (emailResult.failureCount > 0) {
+      console.error(`❌ Failed to email the subscription cancel link to member:${record.member_id}`);
+    }
+    return emailResult.failureCount === 0;
+  }
+
+  /**
+   * Cancel the member's credit card periodic authorization. Body (form or JSON): { token }, a subscription cancel token
+   */
+  async cancelSubscription(event: APIGatewayProxyEvent, locale: Locale): Promise<APIGatewayProxyResult> {
+    try {
+      const token = this.parseFormBody(event).token;
+      const cancel = token ? this.paymentLinkTokenService.verifyCancel(token) : undefined;
+      if (!cancel) {
+        console.warn(`⚠️  Invalid subscription cancel token:${token}`);
+        return this.createResponse(403, {
+          success: false,
+          message: 'invalid cancel link',
+        });
+      }
+
+      const { memberId, merchantTradeNo } = cancel;
+      const subscriptions = await this.paymentRepository.getSubscriptions();
+      const subscription = subscriptions.find(
+        (sub) => sub.merchant_trade_no === merchantTradeNo && sub.member_id === memberId && sub.status === 'active',
+      );
+      if (!subscription) {
+        return this.createResponse(404, {
+          success: false,
+          message: 'active subscription not found',
+        });
+      }
+
+      const result = await this.ecPayService.periodAction(merchantTradeNo, 'Cancel');
+      if (result.RtnCode !== '1') {
+        console.error('Error in ECPay period action. Resp:');
+        console.error(JSON.stringify(result, null, 2));
+        return this.createResponse(400, {
+          success: false,
+          message: `cancel subscription failed: ${result.RtnMsg}`,
+        });
+      }
+
+      await this.paymentRepository.updateSubscription(merchantTradeNo, {
+        status: 'cancelled',
+        cancelled_at: new Date().toISOString(),
+      });
+      console.log(`✅ member:${memberId} cancelled subscription ${merchantTradeNo}`);
+
+      return this.createHtmlResponse(200, this.templateService.renderSubscriptionCancel('cancelled', '', locale));
+    } catch (error) {
+      console.error('Error cancelling subscription:', error);
+      return this.createResponse(500, {
+        success: false,
+        message: 'Internal server error',
+      });
+    }
+  }
+
+  /**
+   * Refund or cancel a member's credit card dues payment (admin).
+   * Body: { yyyymm, memberId, action: 'Refund' | 'Cancel', amount? }, amount defaults to the full TradeAmt.
+   * Every month the trade paid is marked, and its e-invoice is voided (full refund) or credited (partial refund).
+   * A trade paying several months can only be refunded in full.
+   * A Cancel left cancel_pending (N failed after E) is finished by sending the Cancel again.
+   */
+  async handleRefund(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+    try {
+      const body = event.body ? JSON.parse(event.body) : {};
+      const { yyyymm, memberId, action, amount } = body;
+
+      if (!yyyymm || !memberId || (action !== 'Refund' && action !== 'Cancel')) {
+        return this.createResponse(400, {
+          success: false,
+          message: 'Please provide yyyymm, memberId and action (Refund or Cancel)',
+        });
+      }
+
+      const record = await this.paymentRepository.getPaymentData(yyyymm, memberId);
+      if (!record || record.paid !== 'Y' || !record.unique_payment_link) {
+        return this.createResponse(404, {
+          success: false,
+          message: 'paid payment record not found',
+        });
+      }
+      // A Cancel whose E step succeeded but N failed is retried with N only
+      const resumingCancel = record.refund_status === 'cancel_pending' && action === 'Cancel';
+      if (record.refund_status && !resumingCancel) {
+        return this.createResponse(400, {
+          success: false,
+          message: `payment already ${record.refund_status} on ${record.refund_date}`,
+        });
+      }
+
+      const merchantTradeNo = record.unique_payment_link;
+      const info = await this.ecPayService.queryECPay(merchantTradeNo);
+      if (info.TradeStatus !== '1' || !info.PaymentType.startsWith('Credit')) {
+        return this.createResponse(400, {
+          success: false,
+          message: `only paid credit card trades can be refunded, TradeStatus:${info.TradeStatus} PaymentType:${info.PaymentType}`,
+        });
+      }
+
+      // An authorization can only be cancelled as a whole
+      const tradeAmt = Number(info.TradeAmt);
+      const refundAmount = action === 'Cancel' || amount == undefined ? tradeAmt : Number(amount);
+      if (!Number.isInteger(refundAmount) || refundAmount <= 0 || refundAmount > tradeAmt) {
+        return this.createResponse(400, {
+          success: false,
+          message: `amount must be an integer between 1 and ${tradeAmt}`,
+        });
+      }
+
+      // The trade's own month holds its amount, invoice and ledger entry, the other covered months only point to it
+      const coveredMonths = record.covered_months ? record.covered_months.split(',') : [yyyymm];
+      const tradeMonth = coveredMonths[0];
+      const fullRefund = refundAmount === tradeAmt;
+      if (!fullRefund && coveredMonths.length > 1) {
+        return this.createResponse(400, {
+          success: false,
+          message: `the trade paid ${coveredMonths.join(',')}, it can only be refunded in full`,
+        });
+      }
+      const markRefund = async (refundStatus: string) => {
+        for (const month of coveredMonths) {
+          const row = month === yyyymm ? record : await this.paymentRepository.getPaymentData(month, memberId);
+          // A covered month paid by another trade before the prepayment keeps that payment
+          if (row?.unique_payment_link !== merchantTradeNo) continue;
+          await this.paymentRepository.updatePaymentData(month, memberId, {
+            refund_status: refundStatus,
+            refund_amount: month === tradeMonth ? refundAmount.toString() : undefined,
+            refund_date: new Date().toISOString(),
+          });
+        }
+      };
+
+      const creditActions: CreditAction[] = action === 'Refund' ? ['R'] : resumingCancel ? ['N'] : ['E', 'N'];
+      for (const creditAction of creditActions) {
+        const result = await this.ecPayService.creditAction(merchantTradeNo, info.TradeNo, creditAction, refundAmount);
+        if (result.RtnCode !== '1') {
+          console.error('Error in ECPay DoAction. Resp:');
+          console.error(JSON.stringify(result, null, 2));
+          return this.createResponse(400, {
+            success: false,
+            message: `${action} failed: ${result.RtnMsg}`,
+          });
+        }
+
+        // E already changed the trade at ECPay, keep that on the rows in case N fails
+        if (creditAction === 'E') {
+          await markRefund('cancel_pending');
+        }
+      }
+
+      const refundStatus = action === 'Refund' ? 'refunded' : 'cancelled';
+      await markRefund(refundStatus);
+      console.log(`✅ member:${memberId} ${coveredMonths.join(',')} dues ${refundStatus}, NT$ ${refundAmount}`);
+      await this.ledgerService.recordRefund(tradeMonth, memberId, merchantTradeNo, {
+        type: action === 'Refund' ? 'refund' : 'cancel',
+        amount: refundAmount,
+      });
+
+      // The money is already returned, an invoice that couldn't be adjusted is reported to fix by hand
+      let invoice: string | undefined;
+      try {
+        const adjustment = await this.receiptService.adjustInvoiceForRefund(tradeMonth, memberId, {
+          amount: refundAmount,
+          full: fullRefund,
+        });
+        if (adjustment) {
+          invoice =
+            adjustment.RtnCode !== 1
+              ? `failed: ${adjustment.RtnMsg}`
+              : fullRefund
+                ? 'voided'
+                : `allowance ${adjustment.AllowanceNo}`;
+        }
+      } catch (error) {
+        console.error(`❌ Error adjusting e-invoice of member:${memberId} ${tradeMonth}:`, error);
+        invoice = `failed: ${error instanceof Error ? error.message : 'Unknown error'}`;
+      }
+
+      return this.createResponse(200, {
+        success: true,
+        data: {
+          memberId,
+          yyyymm,
+          coveredMonths,
+          merchantTradeNo,
+          refundStatus,
+          refundAmount,
+          invoice,
+        },
+      });
+    } catch (error) {
+      console.error('Error in refund handler:', error);
+      return this.createResponse(500, {
+        success: false,
+        message: error instanceof Error ? error.message : 'Internal server error',
+      });
+    }
+  }
+
+  /**
+   * ECPay PaymentInfoURL: ATM virtual account / CVS code / barcode was issued for an offline payment.
+   * Store it on the member's monthly row and email it, so the member knows where and until when to pay.
+   */
+  async handlePaymentInfo(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+    try {
+      const infoData = this.parseFormBody(event) as PaymentInfoCallback;
+      const result = this.ecPayService.processPaymentInfo(infoData);
+
+      if (!result.isValid) {
+        console.error('❌ Rejected forged ECPay payment info:', JSON.stringify(infoData));
+        return this.createTextResponse(400, '0|CheckMacValue Error');
+      }
+
+      if (!result.isSuccess) {
+        console.warn(`⚠️  ECPay failed to issue payment info for ${result.merchantTradeNo}: ${result.message}`);
+        return this.createTextResponse(200, '1|OK');
+      }
+
+      const { memberId, yyyymm } = this.ecPayService.parseMerchantTradeNo(result.merchantTradeNo);
+      const record = await this.paymentRepository.getPaymentData(yyyymm, memberId);
+      if (!record) {
+        console.error(`❌ No payment record for MerchantTradeNo:${result.merchantTradeNo} in sheet:${yyyymm}`);
+        return this.createTextResponse(404, '0|MerchantTradeNo not found');
+      }
+
+      if (record.payment_info === result.paymentInfo) {
+        console.log(`Payment info of ${result.merchantTradeNo} already recorded, skip`);
+        return this.createTextResponse(200, '1|OK');
+      }
+
+      await this.paymentRepository.updatePaymentData(yyyymm, record.member_id, {
+        payment_type: result.paymentType,
+        payment_info: result.paymentInfo,
+        payment_expire_date: result.expireDate,
+      });
+
+      const email = await this.emailTemplateService.renderForMember('payment_info', yyyymm, {
+        ...record,
+        payment_info: result.paymentInfo,
+        payment_expire_date: result.expireDate,
+      });
+      const emailResult = await this.emailService.sendEmail([record.member_email], email);
+      if (emailResult.failureCount > 0) {
+        console.error(`❌ Failed to email payment info to member:${record.member_id}`);
+      }
+
+      return this.createTextResponse(200, '1|OK');
+    } catch (error) {
+      console.error('Error in payment info handler:', error);
+      return this.createTextResponse(500, '0|Internal server error');
+    }
+  }
+
+  async handleQueryECPay(merchantTradeNo: string): Promise<APIGatewayProxyResult> {
+    const info = await this.ecPayService.queryECPay(merchantTradeNo);
+
+    if (info.TradeStatus === '1') {
+      // succ
+      return this.createResponse(200, {
+        success: true,
+        data: info,
+      });
+    } else {
+      console.error('Error in queryECPay. Resp:');
+      console.error(JSON.stringify(info, null, 2));
+      return this.createResponse(400, {
+        success: false,
+        message: 'queryECPay api error',
+      });
+    }
+  }
+
+  /**
+   * Reconcile unpaid trades of a monthly sheet against ECPay QueryTradeInfo.
+   * Without yyyymm the previous and current month are reconciled, data is then a list of reports.
+   */
+  async handleReconcile(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+    try {
+      const body = event.body ? JSON.parse(event.body) : {};
+
+      const data = body.yyyymm
+        ? await this.reconciliationService.reconcileMonth(body.yyyymm)
+        : await this.reconciliationService.reconcileRecentMonths();
+      return this.createResponse(200, {
+        success: true,
+        data,
+      });
+    } catch (error) {
+      console.error('Error in reconcile handler:', error);
+      return this.createResponse(500, {
+        success: false,
+        message: error instanceof Error ? error.message : 'Internal server error',
+      });
+    }
+  }
+
+  /**
+   * Send the payment reminders due now (normally run by the daily schedule). Body: { dryRun? } to only list them
+   */
+  async handleRemind(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+    try {
+      const body = event.body ? JSON.parse(event.body) : {};
+      const summary = await this.reminderService.sendReminders(new Date(), body.dryRun === true);
+      return this.createResponse(200, {
+        success: true,
+        data: summary,
+      });
     } catch (error) {
-      console.error('Error in hello handler:', error);
+      console.error('Error in remind handler:', error);
       return this.createResponse(500, {
         success: false,
-        message: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Internal server error',
       });
     }
   }
 
-  async getUniquePaymentLink(paymentLink: string): Promise<APIGatewayProxyResult> {
+  /**
+   * Gross / fees / net of the payments received in a month, or the month's ledger as CSV
+   */
+  async handleLedger(yyyymm: string | undefined, format: 'summary' | 'csv'): Promise<APIGatewayProxyResult> {
     try {
-      console.log(`paymentLink:${paymentLink}`);
       const now = new Date();
-      const yyyymm = `${now.getFullYear()}${(now.getMonth() + 1).toString().padStart(2, '0')}`;
-
-      const randomString = Math.random().toString(36).substring(2, 6);
-      const memberId = paymentLink.split('_')[0];
-      const paymentLinkYYYYMM = paymentLink.split('_')[1];
-      const uniquePaymentLink = `${memberId}${paymentLinkYYYYMM}${randomString}`;
-
-      console.log(`memberId:${memberId} uniquePaymentLink:${uniquePaymentLink}`);
+      const month = yyyymm || `${now.getFullYear()}${(now.getMonth() + 1).toString().padStart(2, '0')}`;
+      if (!/^\d{6}$/.test(month)) {
+        return this.createResponse(400, {
+          success: false,
+          message: 'yyyymm must be in yyyymm format',
+        });
+      }
 
-      const paymentResult = await this.ecPayService.createPaymentForm({
-        merchantTradeNo: uniquePaymentLink,
-        totalAmount: Number(config.ecpay.totalAmount),
-        tradeDesc: config.ecpay.tradeDesc,
-        itemName: config.ecpay.itemName,
-        returnURL: config.ecpay.returnURL,
+      if (format === 'csv') {
+        return this.createCsvResponse(`ledger_${month}.csv`, await this.ledgerService.exportMonth(month));
+      }
+      return this.createResponse(200, {
+        success: true,
+        data: await this.ledgerService.summarizeMonth(month),
       });
-
-      // write uniquePaymentLink to googlesheet
-      const paymentRecord = {
-        payment_link: undefined,
-        payment_link_sent: undefined,
-        unique_payment_link: uniquePaymentLink,
-        paid: 'N',
-        paid_date: undefined,
-      } as PaymentRecord;
-      await this.googleSheetService.updatePaymentData(yyyymm, memberId, paymentRecord);
-
-      return this.createResponse(200, paymentResult.redirectUrl);
     } catch (error) {
-      console.log(error);
+      console.error('Error in ledger handler:', error);
       return this.createResponse(500, {
         success: false,
-        message: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Internal server error',
       });
     }
   }
 
-  async handleQueryECPay(merchantTradeNo: string): Promise<APIGatewayProxyResult> {
-    const info = await this.ecPayService.queryECPay(merchantTradeNo);
+  /**
+   * Scheduled (EventBridge) task entry
+   */
+  async handleScheduledEvent(event: ScheduledTaskEvent): Promise<ApiResponse> {
+    console.log('Received scheduled task:', event);
 
-    if (info.TradeStatus === '1') {
-      // succ
+    switch (event.task) {
+      case 'reconcile': {
+        const data = event.yyyymm
+          ? await this.reconciliationService.reconcileMonth(event.yyyymm)
+          : await this.reconciliationService.reconcileRecentMonths();
+        return { success: true, message: 'Reconciliation completed', data };
+      }
+      case 'remind': {
+        const summary = await this.reminderService.sendReminders();
+        return { success: true, message: 'Reminders sent', data: summary };
+      }
+      default:
+        return { success: false, message: `Unknown scheduled task:${event.task}` };
+    }
+  }
+
+  /**
+   * Generate (or complete) a month's payment links. Body: { yyyymm?, flagLeftMembers? }, defaults to current month
+   */
+  async generatePaymentLink(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+    try {
+      const body = event.body ? JSON.parse(event.body) : {};
+      const now = new Date();
+      const yyyymm: string = body.yyyymm || `${now.getFullYear()}${(now.getMonth() + 1).toString().padStart(2, '0')}`;
+      const month = Number(yyyymm.slice(4));
+      if (!/^\d{6}$/.test(yyyymm) || month < 1 || month > 12) {
+        return this.createResponse(400, {
+          success: false,
+          message: 'yyyymm must be in yyyymm format',
+        });
+      }
+
+      const summary = await this.paymentLinkService.generatePaymentLinks(yyyymm, {
+        flagLeftMembers: body.flagLeftMembers === true,
+      });
       return this.createResponse(200, {
         success: true,
-        data: info,
+        data: summary,
       });
-    } else {
-      console.error('Error in queryECPay. Resp:');
-      console.error(JSON.stringify(info, null, 2));
-      return this.createResponse(400, {
+    } catch (error) {
+      console.error('Error generating payment links:', error);
+      return this.createResponse(500, {
         success: false,
-        message: 'queryECPay api error',
+        message: error instanceof Error ? error.message : 'Internal server error',
       });
     }
   }
 
-  async generatePaymentLink(): Promise<APIGatewayProxyResult> {
-    await this.googleSheetService.generatePaymentLinks();
-    return this.createResponse(200, {
-      success: true,
-      data: '',
-    });
-  }
-
   async sendPaymentLink(): Promise<APIGatewayProxyResult> {
     // fetch all payment data from sheet's worksheet: yyyymm format
     const now = new Date();
     const yyyymm = `${now.getFullYear()}${(now.getMonth() + 1).toString().padStart(2, '0')}`;
-    const yyyy = now.getFullYear().toString();
-    const mm = (now.getMonth() + 1).toString();
 
-    const paymentDatas = await this.googleSheetService.getAllPaymentDatas(yyyymm);
+    // Members paying by credit card periodic authorization are charged automatically
+    const subscriptions = await this.paymentRepository.getSubscriptions();
+    const subscribedMemberIds = new Set(
+      subscriptions.filter((sub) => sub.status === 'active').map((sub) => sub.member_id),
+    );
+    // Months already covered by a prepayment don't need a link either, nor members who left
+    const paymentDatas = (await this.paymentRepository.getAllPaymentDatas(yyyymm)).filter(
+      (d) => !subscribedMemberIds.has(d.member_id) && d.paid !== 'Y' && d.member_left !== 'Y',
+    );
 
-    const subject = config.mail.subject;
     // send payment link to each member
+    const template = await this.emailTemplateService.getTemplate('payment_link');
+    const members = new Map((await this.memberRepository.getAllMembers()).map((m) => [m.member_id, m]));
 
     const batchEmailDatas = paymentDatas.map((d) => {
-      const emailContent = `
-    親愛的會員您好:
-    您的 ${yyyy}年 ${mm}月份會費繳交連結為: ${config.mail.paymentPath}paymentLink=${d.payment_link}
-    
-    謝謝。
-    `;
-
+      const values = this.emailTemplateService.mergeValues('payment_link', yyyymm, d, members.get(d.member_id));
       return {
         to: d.member_email,
         member_id: d.member_id,
-        subject: subject,
-        text: emailContent,
+        ...this.emailTemplateService.render(template, values),
       } as BatchEmailSentData;
     });
 
     const result = await this.emailService.sendEmailBatch(batchEmailDatas);
 
     // update email sent result
+    // Reminders are scheduled from the time the link went out
     const paymentRecordY = {
       payment_link: undefined,
       payment_link_sent: 'Y',
+      payment_link_sent_at: new Date().toISOString(),
       unique_payment_link: undefined,
       paid: undefined,
       paid_date: undefined,
@@ -239,14 +1263,102 @@ export class ApiHandler {
       [[], []],
     );
 
-    await this.googleSheetService.updatePaymentDataBatch(yyyymm, memberIds, datas);
+    const updateResult = await this.paymentRepository.updatePaymentDataBatch(yyyymm, memberIds, datas);
 
     return this.createResponse(200, {
       success: true,
-      data: result,
+      data: {
+        ...result,
+        notFound: updateResult.notFound,
+      },
     });
   }
 
+  /**
+   * Sign a fresh payment link for a member's month and email it to the member's registered address.
+   * Body: { paymentLink } (the member's own link, expired or not) or, with the admin API key, { memberId, yyyymm }
+   */
+  async reissuePaymentLink(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
+    try {
+      const body = event.body ? JSON.parse(event.body) : {};
+      let { memberId, yyyymm } = body as { memberId?: string; yyyymm?: string };
+
+      if (body.paymentLink) {
+        const result = this.paymentLinkTokenService.verify(body.paymentLink);
+        if (!result.payload) {
+          return this.createResponse(403, {
+            success: false,
+            message: 'invalid payment link',
+          });
+        }
+        ({ memberId, yyyymm } = result.payload);
+      } else {
+        // Anyone could name a member's month, so only an admin may
+        const unauthorized = this.requireAdminKey(event);
+        if (unauthorized) return unauthorized;
+      }
+
+      if (!memberId || !yyyymm) {
+        return this.createResponse(400, {
+          success: false,
+          message: 'Please provide paymentLink, or memberId and yyyymm',
+        });
+      }
+
+      const record = await this.paymentRepository.getPaymentData(yyyymm, memberId);
+      if (!record) {
+        return this.createResponse(404, {
+          success: false,
+          message: 'payment record not found',
+        });
+      }
+      if (record.paid === 'Y') {
+        // A subscriber's months are paid by the subscription, what they need is its cancel link
+        const subscriptions = await this.paymentRepository.getSubscriptions();
+        const subscription = subscriptions.find((sub) => sub.member_id === memberId && sub.status === 'active');
+        if (subscription) {
+          const sent = await this.sendSubscriptionCancelLink(yyyymm, record, subscription.merchant_trade_no);
+          return this.createResponse(sent ? 200 : 500, {
+            success: sent,
+            message: sent
+              ? 'A new subscription cancel link has been sent'
+              : 'Failed to send the subscription cancel link',
+          });
+        }
+
+        return this.createResponse(400, {
+          success: false,
+          message: `dues of ${yyyymm} already paid`,
+        });
+      }
+
+      // Sheets generated before dues tiers existed have no amount_due
+      const amount = Number(record.amount_due) || Number(config.ecpay.totalAmount);
+      record.payment_link = this.paymentLinkTokenService.sign(memberId, yyyymm, amount);
+
+      const email = await this.emailTemplateService.renderForMember('payment_link', yyyymm, record);
+      const emailResult = await this.emailService.sendEmail([record.member_email], email);
+      const sent = emailResult.failureCount === 0;
+
+      await this.paymentRepository.updatePaymentData(yyyymm, memberId, {
+        payment_link: record.payment_link,
+        payment_link_sent: sent ? 'Y' : 'N',
+      });
+      console.log(`✅ Reissued payment link of member:${memberId} ${yyyymm}, sent: ${sent}`);
+
+      return this.createResponse(sent ? 200 : 500, {
+        success: sent,
+        message: sent ? 'A new payment link has been sent' : 'Failed to send the new payment link',
+      });
+    } catch (error) {
+      console.error('Error reissuing payment link:', error);
+      return this.createResponse(500, {
+        success: false,
+        message: error instanceof Error ? error.message : 'Internal server error',
+      });
+    }
+  }
+
   /**
    * Send email endpoint handler
    */
@@ -319,6 +1431,219 @@ export class ApiHandler {
     }
   }
 
+  /**
+   * Member registry admin (All_members). Body: the member's fields, member_id selects the member to change.
+   * remove deletes the row; suspend keeps it but stops billing.
+   */
+  async handleMember(
+    event: APIGatewayProxyEvent,
+    action: 'create' | 'update' | 'suspend' | 'remove',
+  ): Promise<APIGatewayProxyResult> {
+    try {
+      const body = event.body ? JSON.parse(event.body) : {};
+      // Only registry fields, as strings
+      const input: Partial<MemberData> = Object.fromEntries(
+        MEMBER_FIELDS.filter((field) => body[field] != undefined).map((field) => [field, String(body[field])]),
+      );
+
+      if (action !== 'create' && !input.member_id) {
+        return this.createResponse(400, {
+          success: false,
+          message: 'Please provide member_id',
+        });
+      }
+
+      const result =
+        action === 'create'
+          ? await this.memberService.createMember(input)
+          : action === 'update'
+            ? await this.memberService.updateMember(input.member_id!, input)
+            : action === 'suspend'
+              ? await this.memberService.suspendMember(input.member_id!)
+              : await this.memberService.removeMember(input.member_id!);
+
+      if (!result.success) {
+        const statusCode = result.reason === 'not_found' ? 404 : result.reason === 'duplicate' ? 409 : 400;
+        return this.createResponse(statusCode, {
+          success: false,
+          message: result.message,
+        });
+      }
+      return this.createResponse(action === 'create' ? 201 : 200, {
+        success: true,
+        data: result.member,
+      });
+    } catch (error) {
+      console.error(`Error in member ${action}:`, error);
+      return this.createResponse(500, {
+        success: false,
+        message: error instanceof Error ? error.message : 'Internal server error',
+      });
+    }
+  }
+
+  /**
+   * Unpaid months and total owed per member up to until (yyyymm, default current month), or of one member
+   */
+  async handleArrears(memberId: string | undefined, until: string | undefined): Promise<APIGatewayProxyResult> {
+    const now = new Date();
+    const untilYYYYMM = until || `${now.getFullYear()}${(now.getMonth() + 1).toString().padStart(2, '0')}`;
+    if (!/^\d{6}$/.test(untilYYYYMM)) {
+      return this.createResponse(400, {
+        success: false,
+        message: 'until must be in yyyymm format',
+      });
+    }
+
+    try {
+      if (memberId) {
+        const arrears = await this.arrearsService.getMemberArrears(memberId, untilYYYYMM);
+        return this.createResponse(200, {
+          success: true,
+          data: arrears || { member_id: memberId, member_email: '', months: [], total: 0 },
+        });
+      }
+
+      const arrears = await this.arrearsService.getArrears(untilYYYYMM);
+      return this.createResponse(200, {
+        success: true,
+        data: {
+          until: untilYYYYMM,
+          members: arrears,
+          total: arrears.reduce((sum, a) => sum + a.total, 0),
+        },
+      });
+    } catch (error) {
+      console.error('Error computing arrears:', error);
+      return this.createResponse(500, {
+        success: false,
+        message: error instanceof Error ? error.message : 'Internal server error',
+      });
+    }
+  }
+
+  /**
+   * A member's change history (admin): payment records, registry, trades and subscriptions, optionally of one month
+   */
+  async handleAuditHistory(memberId: string | undefined, yyyymm: string | undefined): Promise<APIGatewayProxyResult> {
+    if (!memberId) {
+      return this.createResponse(400, {
+        success: false,
+        message: 'Please provide memberId',
+      });
+    }
+
+    try {
+      const records = await this.auditRepository.getAuditRecords(memberId);
+      return this.createResponse(200, {
+        success: true,
+        data: yyyymm ? records.filter((record) => record.yyyymm === yyyymm) : records,
+      });
+    } catch (error) {
+      console.error('Error reading audit history:', error);
+      return this.createResponse(500, {
+        success: false,
+        message: error instanceof Error ? error.message : 'Internal server error',
+      });
+    }
+  }
+
+  /**
+   * Render an email template for the board to check its wording: ?template=payment_link, optionally
+   * &memberId=&yyyymm= for a member's real values (a sample member otherwise) and &format=html|text for the part itself
+   */
+  async handleEmailPreview(
+    name: string | undefined,
+    memberId: string | undefined,
+    yyyymm: string | undefined,
+    format: string | undefined,
+  ): Promise<APIGatewayProxyResult> {
+    if (!name || !this.emailTemplateService.isTemplateName(name)) {
+      return this.createResponse(400, {
+        success: false,
+        message: `template must be one of ${EMAIL_TEMPLATE_NAMES.join(', ')}`,
+      });
+    }
+    const now = new Date();
+    const month = yyyymm || `${now.getFullYear()}${(now.getMonth() + 1).toString().padStart(2, '0')}`;
+    if (!/^\d{6}$/.test(month)) {
+      return this.createResponse(400, {
+        success: false,
+        message: 'yyyymm must be in yyyymm format',
+      });
+    }
+
+    try {
+      const preview = await this.emailTemplateService.preview(name, month, memberId);
+      if (!preview) {
+        return this.createResponse(404, {
+          success: false,
+          message: `member:${memberId} has no record in ${month}`,
+        });
+      }
+
+      if (format === 'html') return this.createHtmlResponse(200, preview.html);
+      if (format === 'text') return this.createTextResponse(200, `${preview.subject}\n\n${preview.text}`);
+      return this.createResponse(200, {
+        success: true,
+        data: preview,
+      });
+    } catch (error) {
+      console.error('Error previewing email template:', error);
+      return this.createResponse(500, {
+        success: false,
+        message: error instanceof Error ? error.message : 'Internal server error',
+      });
+    }
+  }
+
+  /**
+   * List members, optionally of one status (?status=active)
+   */
+  async handleListMembers(status: string | undefined): Promise<APIGatewayProxyResult> {
+    if (status && !MEMBER_STATUSES.includes(status as MemberStatus)) {
+      return this.createResponse(400, {
+        success: false,
+        message: `status must be one of ${MEMBER_STATUSES.join(', ')}`,
+      });
+    }
+
+    try {
+      const members = await this.memberService.listMembers(status as MemberStatus | undefined);
+      return this.createResponse(200, {
+        success: true,
+        data: members,
+      });
+    } catch (error) {
+      console.error('Error listing members:', error);
+      return this.createResponse(500, {
+        success: false,
+        message: error instanceof Error ? error.message : 'Internal server error',
+      });
+    }
+  }
+
+  /**
+   * Add the columns new code expects to existing sheets / tables (admin), reporting sheets that need a manual fix
+   */
+  async handleMigrateStorage(): Promise<APIGatewayProxyResult> {
+    try {
+      const results = await this.schemaMigrator.migrateSchema();
+      const hasErrors = results.some((result) => result.errors.length > 0);
+      return this.createResponse(hasErrors ? 409 : 200, {
+        success: !hasErrors,
+        message: hasErrors ? 'some sheets need a manual fix, see errors' : undefined,
+        data: results,
+      });
+    } catch (error) {
+      console.error('Error migrating storage schema:', error);
+      return this.createResponse(500, {
+        success: false,
+        message: error instanceof Error ? error.message : 'Internal server error',
+      });
+    }
+  }
+
   /**
    * Route handling
    */
@@ -329,6 +1654,9 @@ export class ApiHandler {
       queryString: event.queryStringParameters,
     });
 
+    const unauthorized = this.requireAdmin(event);
+    if (unauthorized) return unauthorized;
+
     // Route to appropriate handler
     switch (event.path) {
       case '/hello':
@@ -336,9 +1664,43 @@ export class ApiHandler {
       case '/ecpay':
         return this.handleECPay(event);
       case '/payment/link':
-        return this.generatePaymentLink();
+        return this.generatePaymentLink(event);
       case '/payment/link/send':
         return this.sendPaymentLink();
+      case '/payment/link/reissue':
+        return this.reissuePaymentLink(event);
+      case '/payment/callback':
+        return this.handlePaymentCallback(event);
+      case '/payment/period/callback':
+        return this.handlePeriodCallback(event);
+      case '/payment/info':
+        return this.handlePaymentInfo(event);
+      case '/payment/subscription/cancel':
+        return this.cancelSubscription(
+          event,
+          this.templateService.resolveLocale(
+            event.queryStringParameters?.lang,
+            event.headers?.['Accept-Language'] || event.headers?.['accept-language'],
+          ),
+        );
+      case '/payment/refund':
+        return this.handleRefund(event);
+      case '/payment/reconcile':
+        return this.handleReconcile(event);
+      case '/payment/remind':
+        return this.handleRemind(event);
+
+      case '/storage/migrate':
+        return this.handleMigrateStorage();
+
+      case '/member/create':
+        return this.handleMember(event, 'create');
+      case '/member/update':
+        return this.handleMember(event, 'update');
+      case '/member/suspend':
+        return this.handleMember(event, 'suspend');
+      case '/member/remove':
+        return this.handleMember(event, 'remove');
 
       case '/email':
       case '/email/batch':
@@ -353,7 +1715,17 @@ export class ApiHandler {
   }
 
   async handleGetMethod(event: APIGatewayProxyEvent): Promise<APIGatewayProxyResult> {
-    if (event.path.startsWith('/payment/details')) {
+    const locale = this.templateService.resolveLocale(
+      event.queryStringParameters?.lang,
+      event.headers?.['Accept-Language'] || event.headers?.['accept-language'],
+    );
+
+    const unauthorized = this.requireAdmin(event);
+    if (unauthorized) return unauthorized;
+
+    if (event.path === '/hello') {
+      return this.handleHello(event);
+    } else if (event.path.startsWith('/payment/details')) {
       // get order details
       const merchantTradeNo = event.queryStringParameters?.MerchantTradeNo;
       console.log(`merchantTradeNo:${merchantTradeNo}`);
@@ -365,18 +1737,63 @@ export class ApiHandler {
           message: 'merchantTradeNo not found',
         });
       }
+    } else if (event.path.startsWith('/email/preview')) {
+      return this.handleEmailPreview(
+        event.queryStringParameters?.template,
+        event.queryStringParameters?.memberId,
+        event.queryStringParameters?.yyyymm,
+        event.queryStringParameters?.format,
+      );
+    } else if (event.path.startsWith('/audit')) {
+      return this.handleAuditHistory(event.queryStringParameters?.memberId, event.queryStringParameters?.yyyymm);
+    } else if (event.path.startsWith('/arrears')) {
+      return this.handleArrears(event.queryStringParameters?.memberId, event.queryStringParameters?.until);
+    } else if (event.path.startsWith('/members')) {
+      return this.handleListMembers(event.queryStringParameters?.status);
+    } else if (event.path.startsWith('/ledger/summary')) {
+      return this.handleLedger(event.queryStringParameters?.yyyymm, 'summary');
+    } else if (event.path.startsWith('/ledger/export')) {
+      return this.handleLedger(event.queryStringParameters?.yyyymm, 'csv');
     } else if (event.path.startsWith('/payment/link')) {
       // gen payment link
       const paymentLink = event.queryStringParameters?.paymentLink;
-      console.log(`paymentLink:${paymentLink}`);
+      const choosePayment = event.queryStringParameters?.choosePayment;
+      const months = Number(event.queryStringParameters?.months || 1);
+      const outstanding = event.queryStringParameters?.outstanding === '1';
+      if (paymentLink) {
+        const verified = this.verifyPaymentLink(paymentLink);
+        if ('statusCode' in verified) return verified;
+        return this.getUniquePaymentLink(verified, { choosePayment, months, outstanding, locale });
+      } else {
+        return this.createResponse(404, {
+          success: false,
+          message: 'paymentLink not found',
+        });
+      }
+    } else if (event.path.startsWith('/payment/subscribe')) {
+      // gen credit card periodic payment link
+      const paymentLink = event.queryStringParameters?.paymentLink;
       if (paymentLink) {
-        return this.getUniquePaymentLink(paymentLink);
+        const verified = this.verifyPaymentLink(paymentLink);
+        if ('statusCode' in verified) return verified;
+        return this.getUniquePaymentLink(verified, { subscribe: true, locale });
       } else {
         return this.createResponse(404, {
           success: false,
           message: 'paymentLink not found',
         });
       }
+    } else if (event.path.startsWith('/payment/subscription/cancel')) {
+      // Only the confirmation page, the cancel itself is the POST it submits
+      const token = event.queryStringParameters?.token;
+      if (token && this.paymentLinkTokenService.verifyCancel(token)) {
+        return this.createHtmlResponse(200, this.templateService.renderSubscriptionCancel('confirm', token, locale));
+      } else {
+        return this.createResponse(403, {
+          success: false,
+          message: 'invalid cancel link',
+        });
+      }
     }
 
     return this.createResponse(404, {
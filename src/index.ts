@@ -1,15 +1,43 @@
 import { APIGatewayProxyEvent, APIGatewayProxyResult, Context } from 'aws-lambda';
 import { ApiHandler } from './handler/apiHandler';
+import { ApiResponse, ScheduledTaskEvent } from './types';
+import { randomUUID } from 'crypto';
+import { resolveAuditActor, resolveTaskActor, runWithAuditContext } from './services/auditContext';
 
 // Create API handler instance
 const apiHandler = new ApiHandler();
+// Storage is loaded during the cold start, every request waits for it instead of racing it
+const initialized = apiHandler.initialize();
 
 /**
  * AWS Lambda main entry point
  */
-export const handler = async (event: APIGatewayProxyEvent, context: Context): Promise<APIGatewayProxyResult> => {
+export const handler = async (
+  event: APIGatewayProxyEvent | ScheduledTaskEvent,
+  context: Context,
+): Promise<APIGatewayProxyResult | ApiResponse> => {
+  // Writes made while handling the event are audited under its request id (local dev has none)
+  const requestId = context.awsRequestId || `local-${randomUUID()}`;
+  const actor = 'task' in event ? resolveTaskActor(event.task) : resolveAuditActor(event.httpMethod, event.path);
+  return runWithAuditContext({ requestId, actor }, () => handleEvent(event, requestId));
+};
+
+const handleEvent = async (
+  event: APIGatewayProxyEvent | ScheduledTaskEvent,
+  requestId: string,
+): Promise<APIGatewayProxyResult | ApiResponse> => {
+  await initialized;
+
+  if ('task' in event) {
+    console.log('Lambda function invoked by schedule', {
+      requestId,
+      task: event.task,
+    });
+    return apiHandler.handleScheduledEvent(event);
+  }
+
   console.log('Lambda function invoked', {
-    requestId: context.awsRequestId,
+    requestId,
     event: {
       httpMethod: event.httpMethod,
       path: event.path,
@@ -31,7 +59,7 @@ export const handler = async (event: APIGatewayProxyEvent, context: Context): Pr
         body: JSON.stringify({
           success: false,
           message: 'Not allow http method',
-          requestId: context.awsRequestId,
+          requestId,
         }),
       };
     }
@@ -47,7 +75,7 @@ export const handler = async (event: APIGatewayProxyEvent, context: Context): Pr
       body: JSON.stringify({
         success: false,
         message: 'Internal server error',
-        requestId: context.awsRequestId,
+        requestId,
       }),
     };
   }
@@ -94,9 +122,11 @@ if (require.main === module) {
     };
 
     try {
-      const result = await handler(event, {} as Context);
+      const result = (await handler(event, {} as Context)) as APIGatewayProxyResult;
 
       // Send response
+      res.status(result.statusCode);
+      if (result.headers) res.set(result.headers);
       if (result.body) {
         try {
           // Try to parse as JSON for pretty printing in development
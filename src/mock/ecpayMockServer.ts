@@ -0,0 +1,188 @@
+import express from 'express';
+import config from '../configs';
+import { ECPayService } from '../services/ecpayService';
+
+/**
+ * Local stand-in for the ECPay payment stage, for offline end-to-end testing.
+ *
+ * Point the API at it with ECPAY_API_BASE_URL=http://localhost:8090 and run `npm run mock:ecpay`.
+ * Submitted payment forms are validated and held in memory; paying (or failing) a trade POSTs a signed
+ * notification to its ReturnURL, and QueryTradeInfo answers from the same memory.
+ * Set MOCK_ECPAY_AUTO_PAY=success|fail to settle every trade on submit without a browser (CI).
+ */
+
+interface MockTrade {
+  params: Record<string, string>;
+  tradeNo: string;
+  tradeDate: string;
+  status: 'pending' | 'paid' | 'failed';
+  paymentDate: string;
+}
+
+const port = Number(process.env.MOCK_ECPAY_PORT) || 8090;
+const autoPay = process.env.MOCK_ECPAY_AUTO_PAY as 'success' | 'fail' | undefined;
+
+const ecPayService = new ECPayService();
+const trades = new Map<string, MockTrade>();
+
+/**
+ * ECPay date format: yyyy/MM/dd HH:mm:ss
+ */
+const formatDate = (date: Date): string => {
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${date.getFullYear()}/${pad(date.getMonth() + 1)}/${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+};
+
+const isSigned = (data: Record<string, string>): boolean => {
+  const { CheckMacValue, ...signedData } = data;
+  return !!CheckMacValue && CheckMacValue.toUpperCase() === ecPayService.generateCheckMacValue(signedData);
+};
+
+const sign = (data: Record<string, string>): Record<string, string> => ({
+  ...data,
+  CheckMacValue: ecPayService.generateCheckMacValue(data),
+});
+
+/**
+ * Settle a trade and POST the signed notification to its ReturnURL, like ECPay does
+ */
+const settleTrade = async (trade: MockTrade, success: boolean): Promise<string> => {
+  trade.status = success ? 'paid' : 'failed';
+  trade.paymentDate = success ? formatDate(new Date()) : '';
+
+  const callbackData = sign({
+    MerchantID: trade.params.MerchantID,
+    MerchantTradeNo: trade.params.MerchantTradeNo,
+    StoreID: '',
+    RtnCode: success ? '1' : '10100248',
+    RtnMsg: success ? 'Succeeded' : 'Mock payment failed',
+    TradeNo: trade.tradeNo,
+    TradeAmt: trade.params.TotalAmount,
+    PaymentDate: trade.paymentDate,
+    PaymentType: 'Credit_CreditCard',
+    PaymentTypeChargeFee: Math.round(Number(trade.params.TotalAmount) * 0.0275).toString(),
+    TradeDate: trade.tradeDate,
+    SimulatePaid: '1',
+    CustomField1: '',
+    CustomField2: '',
+    CustomField3: '',
+    CustomField4: '',
+  });
+
+  console.log(`📨 POST ${trade.params.ReturnURL} for ${trade.params.MerchantTradeNo} (${trade.status})`);
+  const response = await fetch(trade.params.ReturnURL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+    },
+    body: new URLSearchParams(callbackData).toString(),
+  });
+  const reply = await response.text();
+  console.log(`   ReturnURL replied: ${reply}`);
+  return reply;
+};
+
+const app = express();
+app.use(express.urlencoded({ extended: true }));
+
+app.post('/Cashier/AioCheckOut/V5', async (req: express.Request, res: express.Response) => {
+  const params = req.body as Record<string, string>;
+  if (!isSigned(params)) {
+    console.error('❌ AioCheckOut CheckMacValue Error:', params);
+    res.status(400).send('CheckMacValue Error');
+    return;
+  }
+  if (trades.has(params.MerchantTradeNo)) {
+    res.status(400).send(`MerchantTradeNo ${params.MerchantTradeNo} duplicated`);
+    return;
+  }
+
+  const trade: MockTrade = {
+    params,
+    tradeNo: `${Date.now()}`.slice(-10).padStart(20, '2'),
+    tradeDate: formatDate(new Date()),
+    status: 'pending',
+    paymentDate: '',
+  };
+  trades.set(params.MerchantTradeNo, trade);
+  console.log(`🛒 Trade ${params.MerchantTradeNo} NT$ ${params.TotalAmount} created`);
+
+  if (autoPay) {
+    const reply = await settleTrade(trade, autoPay === 'success');
+    res.send(`${params.MerchantTradeNo}: ${trade.status}, ReturnURL replied ${reply}`);
+    return;
+  }
+
+  res.send(`
+<!DOCTYPE html>
+<html>
+   <head>
+      <meta charset="UTF-8">
+      <title>Mock ECPay</title>
+   </head>
+   <body style="text-align: center; padding: 20px;">
+      <h3>Mock ECPay</h3>
+      <p>${params.MerchantTradeNo}: ${params.ItemName} NT$ ${params.TotalAmount}</p>
+      <form method="post" action="/mock/pay">
+         <input type="hidden" name="MerchantTradeNo" value="${params.MerchantTradeNo}">
+         <button type="submit" name="result" value="success">Pay</button>
+         <button type="submit" name="result" value="fail">Fail</button>
+      </form>
+   </body>
+</html>
+`);
+});
+
+app.post('/mock/pay', async (req: express.Request, res: express.Response) => {
+  const trade = trades.get(req.body.MerchantTradeNo);
+  if (!trade) {
+    res.status(404).send('Trade not found');
+    return;
+  }
+
+  const reply = await settleTrade(trade, req.body.result === 'success');
+  if (trade.params.ClientBackURL) {
+    res.redirect(trade.params.ClientBackURL);
+  } else {
+    res.send(`${trade.params.MerchantTradeNo}: ${trade.status}, ReturnURL replied ${reply}`);
+  }
+});
+
+app.post('/Cashier/QueryTradeInfo/V5', (req: express.Request, res: express.Response) => {
+  const params = req.body as Record<string, string>;
+  if (!isSigned(params)) {
+    res.status(400).send('CheckMacValue Error');
+    return;
+  }
+
+  const trade = trades.get(params.MerchantTradeNo);
+  const amount = trade?.params.TotalAmount || '0';
+  const info = sign({
+    MerchantID: params.MerchantID,
+    MerchantTradeNo: params.MerchantTradeNo,
+    StoreID: '',
+    TradeNo: trade?.tradeNo || '',
+    TradeAmt: amount,
+    PaymentDate: trade?.paymentDate || '',
+    PaymentType: trade ? 'Credit_CreditCard' : '',
+    HandlingCharge: '0',
+    PaymentTypeChargeFee: trade?.status === 'paid' ? Math.round(Number(amount) * 0.0275).toString() : '0',
+    TradeDate: trade?.tradeDate || '',
+    // 10200047: trade not found
+    TradeStatus: !trade ? '10200047' : trade.status === 'paid' ? '1' : '0',
+    ItemName: trade?.params.ItemName || '',
+    CustomField1: '',
+    CustomField2: '',
+    CustomField3: '',
+    CustomField4: '',
+  });
+
+  res.send(new URLSearchParams(info).toString());
+});
+
+app.listen(port, () => {
+  console.log(`🧪 Mock ECPay server running on port ${port}`);
+  console.log(`   MerchantID: ${config.ecpay.merchantId}`);
+  console.log(`   Auto pay: ${autoPay || 'off'}`);
+  console.log(`   Set ECPAY_API_BASE_URL=http://localhost:${port} for the API under test`);
+});
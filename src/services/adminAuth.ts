@@ -0,0 +1,32 @@
+import * as crypto from 'crypto';
+import config from '../configs';
+
+// Admin endpoints, called with the x-api-key header set to ADMIN_API_KEY. Paths match by prefix, like the routes.
+const ADMIN_ROUTES: Array<[method: string, path: string]> = [
+  ['POST', '/payment/refund'],
+  ['POST', '/payment/reconcile'],
+  ['GET', '/ledger/summary'],
+  ['GET', '/ledger/export'],
+  ['GET', '/members'],
+  ['POST', '/member/'],
+  ['GET', '/arrears'],
+  ['POST', '/storage/migrate'],
+  ['GET', '/audit'],
+  ['GET', '/email/preview'],
+  ['POST', '/payment/remind'],
+];
+
+export const isAdminRoute = (httpMethod: string, path: string): boolean =>
+  ADMIN_ROUTES.some(([method, adminPath]) => httpMethod === method && path.startsWith(adminPath));
+
+/**
+ * Whether the request carries the admin API key. Always false while ADMIN_API_KEY is not set.
+ */
+export const isAdminRequest = (headers: Record<string, string | undefined> | null | undefined): boolean => {
+  const apiKey = Object.entries(headers || {}).find(([name]) => name.toLowerCase() === 'x-api-key')?.[1];
+  if (!config.admin.apiKey || !apiKey) return false;
+
+  const expected = Buffer.from(config.admin.apiKey);
+  const received = Buffer.from(apiKey);
+  return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+};
@@ -0,0 +1,57 @@
+import config from '../configs';
+import { PaymentRepository } from '../types/repositoryTypes';
+import { MemberArrears } from '../types';
+
+export class ArrearsService {
+  private paymentRepository: PaymentRepository;
+
+  constructor(paymentRepository: PaymentRepository) {
+    this.paymentRepository = paymentRepository;
+  }
+
+  /**
+   * Members with unpaid months up to (and including) until, most owed first.
+   * A month counts when the member has an unpaid record in it and hadn't left by then.
+   */
+  async getArrears(until: string): Promise<MemberArrears[]> {
+    const arrears = await this.scan(until);
+    return [...arrears.values()].sort((a, b) => b.total - a.total);
+  }
+
+  /**
+   * A member's unpaid months up to (and including) until, undefined when there are none
+   */
+  async getMemberArrears(memberId: string, until: string): Promise<MemberArrears | undefined> {
+    const arrears = await this.scan(until, memberId);
+    return arrears.get(memberId);
+  }
+
+  private async scan(until: string, memberId?: string): Promise<Map<string, MemberArrears>> {
+    const arrears = new Map<string, MemberArrears>();
+    const months = (await this.paymentRepository.getMonths()).filter((yyyymm) => yyyymm <= until);
+
+    for (const yyyymm of months) {
+      const records = memberId
+        ? [await this.paymentRepository.getPaymentData(yyyymm, memberId)]
+        : await this.paymentRepository.getAllPaymentDatas(yyyymm);
+
+      for (const record of records) {
+        if (!record || record.paid === 'Y' || record.member_left === 'Y') continue;
+
+        // Rows created outside link generation have no amount due, the default dues apply
+        const amountDue = Number(record.amount_due) || Number(config.ecpay.totalAmount);
+        const memberArrears = arrears.get(record.member_id) || {
+          member_id: record.member_id,
+          member_email: record.member_email,
+          months: [],
+          total: 0,
+        };
+        memberArrears.months.push({ yyyymm, amount_due: amountDue });
+        memberArrears.total += amountDue;
+        arrears.set(record.member_id, memberArrears);
+      }
+    }
+
+    return arrears;
+  }
+}
@@ -0,0 +1,45 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+export type AuditActor = 'admin' | 'ecpay' | 'reconciliation' | 'member' | 'system';
+
+export interface AuditContext {
+  requestId: string;
+  actor: AuditActor;
+}
+
+// ECPay server-to-server notifications
+const ECPAY_PATHS = ['/payment/callback', '/payment/period/callback', '/payment/info'];
+// Opened by members from their payment link (or subscription cancel link), or asking for a new one
+const MEMBER_ROUTES: Array<[method: string, path: string]> = [
+  ['GET', '/payment/link'],
+  ['POST', '/payment/link/reissue'],
+  ['GET', '/payment/subscribe'],
+  ['POST', '/payment/subscription/cancel'],
+];
+
+const storage = new AsyncLocalStorage<AuditContext>();
+
+/**
+ * Who a request acts for, by its route. Every other route is an admin endpoint.
+ */
+export const resolveAuditActor = (httpMethod: string, path: string): AuditActor => {
+  if (ECPAY_PATHS.includes(path)) return 'ecpay';
+  if (path === '/payment/reconcile') return 'reconciliation';
+  if (MEMBER_ROUTES.some(([method, memberPath]) => httpMethod === method && path.startsWith(memberPath))) {
+    return 'member';
+  }
+  return 'admin';
+};
+
+/**
+ * Who a scheduled task acts for: reconciliation, or the system for the other tasks (e.g. reminders)
+ */
+export const resolveTaskActor = (task: string): AuditActor => (task === 'reconcile' ? 'reconciliation' : 'system');
+
+/**
+ * Run a request with its audit context, every write made while handling it is attributed to it
+ */
+export const runWithAuditContext = <T>(context: AuditContext, fn: () => Promise<T>): Promise<T> =>
+  storage.run(context, fn);
+
+export const getAuditContext = (): AuditContext => storage.getStore() || { requestId: '', actor: 'system' };
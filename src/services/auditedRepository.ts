@@ -0,0 +1,508 @@
+import { randomUUID } from 'crypto';
+import {
+  AuditRecord,
+  DuesTierData,
+  EmailTemplateRecord,
+  LedgerRecord,
+  MEMBER_FIELDS,
+  MemberData,
+  PAYMENT_RECORD_FIELDS,
+  PaymentBatchUpdateResult,
+  PaymentRecord,
+  Repository,
+  SchemaMigrationResult,
+  StorageReadiness,
+  SUBSCRIPTION_FIELDS,
+  SubscriptionRecord,
+  TRADE_NO_FIELDS,
+  TradeNoRecord,
+} from '../types/repositoryTypes';
+import { getAuditContext } from './auditContext';
+import { parseMerchantTradeNo } from './ecpayService';
+// Attempts of an audit write
+const MAX_AUDIT_ATTEMPTS = 3;
+
+type AuditEntity = 'payment' | 'member' | 'trade' | 'subscription';
+
+// The record a write changes, as its audit entries name it
+interface AuditTarget {
+  entity: AuditEntity;
+  entityId: string;
+  memberId: string;
+  yyyymm: string;
+}
+
+/**
+ * Wraps a storage backend so every write of a payment record, member, issued trade or subscription is audited,
+ * attributed to the request being handled (see auditContext). Everything else is passed through.
+ *
+ * Entries of the fields a write is about to change are appended first (status pending), so a write that can't
+ * be audited fails before changing anything. After the write, entries with the values it replaced, as read by
+ * the write itself, confirm it. A confirmation that can't be written is logged, not thrown: the change is saved
+ * and its pending entries still record it.
+ */
+export class AuditedRepository implements Repository {
+  private repository: Repository;
+
+  constructor(repository: Repository) {
+    this.repository = repository;
+  }
+
+  private entry(
+    target: AuditTarget,
+    writeId: string,
+    status: string,
+    change: Pick<AuditRecord, 'field' | 'old_value' | 'new_value'> = { field: '', old_value: '', new_value: '' },
+  ): AuditRecord {
+    const { requestId, actor } = getAuditContext();
+    return {
+      timestamp: new Date().toISOString(),
+      request_id: requestId,
+      actor,
+      member_id: target.memberId,
+      yyyymm: target.yyyymm,
+      ...change,
+      entity: target.entity,
+      entity_id: target.entityId,
+      write_id: writeId,
+      status,
+    };
+  }
+
+  /**
+   * Entries of the fields data changes on before (a new record when undefined)
+   */
+  private diff<T>(
+    target: AuditTarget,
+    fields: (keyof T)[],
+    before: T | undefined,
+    data: Partial<T>,
+    writeId: string,
+    status: string,
+  ): AuditRecord[] {
+    return fields
+      .filter((field) => data[field] != undefined)
+      .map((field) => ({
+        field: String(field),
+        old_value: String(before?.[field] ?? ''),
+        new_value: String(data[field]),
+      }))
+      .filter((change) => change.old_value !== change.new_value)
+      .map((change) => this.entry(target, writeId, status, change));
+  }
+
+  /**
+   * Retried a few times. Pending entries are required before writing and thrown; a confirmation is only logged.
+   */
+  private async audit(records: AuditRecord[], required: boolean): Promise<void> {
+    if (records.length === 0) return;
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await this.repository.addAuditRecords(records);
+        return;
+      } catch (error) {
+        console.error(`❌ Error writing ${records.length} audit entries (attempt ${attempt}):`, error);
+        if (attempt >= MAX_AUDIT_ATTEMPTS) break;
+      }
+      await new Promise((resolve) => setTimeout(resolve, 200 * attempt));
+    }
+
+    const writes = [...new Set(records.map((r) => `${r.entity} ${r.member_id} ${r.yyyymm} ${r.entity_id}`.trim()))];
+    if (required) {
+      throw new Error(`audit entries of ${writes.join(', ')} not written, nothing changed`);
+    }
+    console.error(`❌ Confirmation of ${writes.join(', ')} not written, its audit entries stay pending`);
+  }
+
+  /**
+   * Audit the write of one record. expected is the record read beforehand (undefined when there is none,
+   * and so no change unless the write creates it); dataFor gives what the write sets on a record.
+   * Returns what write returns, false when it didn't write (precondition failed).
+   */
+  private async auditWrite<T>(
+    targetOf: (record: T | undefined) => AuditTarget,
+    fields: (keyof T)[],
+    expected: T | undefined,
+    dataFor: (record: T | undefined) => Partial<T>,
+    write: (onRead: (current: T | undefined) => void) => Promise<boolean>,
+    options: { creates?: boolean } = {},
+  ): Promise<boolean> {
+    const writeId = randomUUID();
+    const pending =
+      expected || options.creates
+        ? this.diff(targetOf(expected), fields, expected, dataFor(expected), writeId, 'pending')
+        : [];
+    await this.audit(pending, true);
+
+    let read = false;
+    let before: T | undefined;
+    let written: boolean;
+    try {
+      written = await write((current) => {
+        read = true;
+        before = current;
+      });
+    } catch (error) {
+      if (pending.length > 0) await this.audit([this.entry(targetOf(expected), writeId, 'failed')], false);
+      throw error;
+    }
+
+    const target = targetOf(read ? before : expected);
+    const changes = written && read ? this.diff(target, fields, before, dataFor(before), writeId, 'written') : [];
+    if (changes.length > 0) {
+      await this.audit(changes, false);
+    } else if (pending.length > 0) {
+      await this.audit([this.entry(target, writeId, written ? 'unchanged' : 'skipped')], false);
+    }
+    return written;
+  }
+
+  /**
+   * Audit the write adding records, confirmed by one entry per record: the pending entries hold every value
+   */
+  private async auditAdd<T>(
+    records: { target: AuditTarget; record: T }[],
+    fields: (keyof T)[],
+    write: () => Promise<void>,
+  ): Promise<void> {
+    const writeId = randomUUID();
+    await this.audit(
+      records.flatMap(({ target, record }) => this.diff(target, fields, undefined, record, writeId, 'pending')),
+      true,
+    );
+
+    const confirm = (status: string) => records.map(({ target }) => this.entry(target, writeId, status));
+    try {
+      await write();
+    } catch (error) {
+      await this.audit(confirm('failed'), false);
+      throw error;
+    }
+    await this.audit(confirm('written'), false);
+  }
+
+  private paymentTarget(yyyymm: string, memberId: string): AuditTarget {
+    return { entity: 'payment', entityId: '', memberId, yyyymm };
+  }
+
+  private memberTarget(memberId: string): AuditTarget {
+    return { entity: 'member', entityId: '', memberId, yyyymm: '' };
+  }
+
+  async addPaymentRecords(yyyymm: string, records: PaymentRecord[]): Promise<void> {
+    await this.auditAdd(
+      records.map((record) => ({ target: this.paymentTarget(yyyymm, record.member_id), record })),
+      PAYMENT_RECORD_FIELDS,
+      () => this.repository.addPaymentRecords(yyyymm, records),
+    );
+  }
+
+  async updatePaymentData(
+    yyyymm: string,
+    memberId: string,
+    data: Partial<PaymentRecord>,
+    precondition?: (current: PaymentRecord) => boolean,
+  ): Promise<boolean> {
+    return this.auditWrite(
+      () => this.paymentTarget(yyyymm, memberId),
+      PAYMENT_RECORD_FIELDS,
+      await this.repository.getPaymentData(yyyymm, memberId),
+      () => data,
+      (onRead) =>
+        this.repository.updatePaymentData(yyyymm, memberId, data, (current) => {
+          if (precondition && !precondition(current)) return false;
+          onRead(current);
+          return true;
+        }),
+    );
+  }
+
+  async updatePaymentDataBatch(
+    yyyymm: string,
+    memberIds: string[],
+    datas: Partial<PaymentRecord>[],
+    onRead?: (current: PaymentRecord) => void,
+  ): Promise<PaymentBatchUpdateResult> {
+    const writeId = randomUUID();
+    const expected = new Map(
+      (await this.repository.getAllPaymentDatas(yyyymm)).map((record) => [record.member_id, record]),
+    );
+    const pending = memberIds.flatMap((memberId, i) =>
+      expected.has(memberId)
+        ? this.diff(
+            this.paymentTarget(yyyymm, memberId),
+            PAYMENT_RECORD_FIELDS,
+            expected.get(memberId),
+            datas[i],
+            writeId,
+            'pending',
+          )
+        : [],
+    );
+    await this.audit(pending, true);
+    const pendingMemberIds = new Set(pending.map((record) => record.member_id));
+
+    const before = new Map<string, PaymentRecord>();
+    let result: PaymentBatchUpdateResult;
+    try {
+      result = await this.repository.updatePaymentDataBatch(yyyymm, memberIds, datas, (current) => {
+        before.set(current.member_id, current);
+        onRead?.(current);
+      });
+    } catch (error) {
+      await this.audit(
+        [...pendingMemberIds].map((memberId) => this.entry(this.paymentTarget(yyyymm, memberId), writeId, 'failed')),
+        false,
+      );
+      throw error;
+    }
+
+    await this.audit(
+      memberIds.flatMap((memberId, i) => {
+        const target = this.paymentTarget(yyyymm, memberId);
+        const changes = before.has(memberId)
+          ? this.diff(target, PAYMENT_RECORD_FIELDS, before.get(memberId), datas[i], writeId, 'written')
+          : [];
+        if (changes.length > 0 || !pendingMemberIds.has(memberId)) return changes;
+        return [this.entry(target, writeId, before.has(memberId) ? 'unchanged' : 'skipped')];
+      }),
+      false,
+    );
+    return result;
+  }
+
+  async upsertPaymentData(
+    yyyymm: string,
+    memberId: string,
+    memberEmail: string,
+    data: Partial<PaymentRecord>,
+    onRead?: (current: PaymentRecord | undefined) => void,
+  ): Promise<void> {
+    await this.auditWrite(
+      () => this.paymentTarget(yyyymm, memberId),
+      PAYMENT_RECORD_FIELDS,
+      await this.repository.getPaymentData(yyyymm, memberId),
+      // A created record also gets the member's id and email
+      (record) => (record ? data : { ...data, member_id: memberId, member_email: memberEmail }),
+      async (auditRead) => {
+        await this.repository.upsertPaymentData(yyyymm, memberId, memberEmail, data, (current) => {
+          auditRead(current);
+          onRead?.(current);
+        });
+        return true;
+      },
+      { creates: true },
+    );
+  }
+
+  hasMonth(yyyymm: string): Promise<boolean> {
+    return this.repository.hasMonth(yyyymm);
+  }
+
+  getMonths(): Promise<string[]> {
+    return this.repository.getMonths();
+  }
+
+  getAllPaymentDatas(yyyymm: string): Promise<PaymentRecord[]> {
+    return this.repository.getAllPaymentDatas(yyyymm);
+  }
+
+  getPaymentData(yyyymm: string, memberId: string): Promise<PaymentRecord | undefined> {
+    return this.repository.getPaymentData(yyyymm, memberId);
+  }
+
+  getIssuedTrades(memberId: string, yyyymm: string): Promise<TradeNoRecord[]> {
+    return this.repository.getIssuedTrades(memberId, yyyymm);
+  }
+
+  async addIssuedTradeNo(record: TradeNoRecord): Promise<void> {
+    const target: AuditTarget = {
+      entity: 'trade',
+      entityId: record.merchant_trade_no,
+      memberId: record.member_id,
+      yyyymm: record.yyyymm,
+    };
+    await this.auditAdd([{ target, record }], TRADE_NO_FIELDS, () => this.repository.addIssuedTradeNo(record));
+  }
+
+  async updateIssuedTrade(
+    merchantTradeNo: string,
+    data: Partial<TradeNoRecord>,
+    onRead?: (current: TradeNoRecord) => void,
+  ): Promise<void> {
+    // The trade number starts with the member and month it was issued for
+    const { memberId, yyyymm } = parseMerchantTradeNo(merchantTradeNo);
+    const expected = (await this.repository.getIssuedTrades(memberId, yyyymm)).find(
+      (trade) => trade.merchant_trade_no === merchantTradeNo,
+    );
+
+    await this.auditWrite<TradeNoRecord>(
+      (trade) => ({
+        entity: 'trade',
+        entityId: merchantTradeNo,
+        memberId: trade?.member_id || memberId,
+        yyyymm: trade?.yyyymm || yyyymm,
+      }),
+      TRADE_NO_FIELDS,
+      expected,
+      () => data,
+      async (auditRead) => {
+        await this.repository.updateIssuedTrade(merchantTradeNo, data, (current) => {
+          auditRead(current);
+          onRead?.(current);
+        });
+        return true;
+      },
+    );
+  }
+
+  getSubscriptions(): Promise<SubscriptionRecord[]> {
+    return this.repository.getSubscriptions();
+  }
+
+  async addSubscription(record: SubscriptionRecord): Promise<void> {
+    await this.auditAdd(
+      [{ target: this.subscriptionTarget(record.merchant_trade_no, record), record }],
+      SUBSCRIPTION_FIELDS,
+      () => this.repository.addSubscription(record),
+    );
+  }
+
+  async updateSubscription(
+    merchantTradeNo: string,
+    data: Partial<SubscriptionRecord>,
+    onRead?: (current: SubscriptionRecord) => void,
+  ): Promise<void> {
+    const expected = (await this.repository.getSubscriptions()).find(
+      (sub) => sub.merchant_trade_no === merchantTradeNo,
+    );
+
+    await this.auditWrite(
+      (subscription) => this.subscriptionTarget(merchantTradeNo, subscription),
+      SUBSCRIPTION_FIELDS,
+      expected,
+      () => data,
+      async (auditRead) => {
+        await this.repository.updateSubscription(merchantTradeNo, data, (current) => {
+          auditRead(current);
+          onRead?.(current);
+        });
+        return true;
+      },
+    );
+  }
+
+  private subscriptionTarget(merchantTradeNo: string, subscription: SubscriptionRecord | undefined): AuditTarget {
+    return { entity: 'subscription', entityId: merchantTradeNo, memberId: subscription?.member_id || '', yyyymm: '' };
+  }
+
+  getLedgerRecords(): Promise<LedgerRecord[]> {
+    return this.repository.getLedgerRecords();
+  }
+
+  addLedgerRecord(record: LedgerRecord): Promise<void> {
+    return this.repository.addLedgerRecord(record);
+  }
+
+  getAllMembers(): Promise<MemberData[]> {
+    return this.repository.getAllMembers();
+  }
+
+  async addMember(member: MemberData): Promise<void> {
+    await this.auditAdd([{ target: this.memberTarget(member.member_id), record: member }], MEMBER_FIELDS, () =>
+      this.repository.addMember(member),
+    );
+  }
+
+  async updateMember(
+    memberId: string,
+    data: Partial<MemberData>,
+    onRead?: (current: MemberData) => void,
+  ): Promise<void> {
+    await this.auditWrite(
+      () => this.memberTarget(memberId),
+      MEMBER_FIELDS,
+      (await this.repository.getAllMembers()).find((member) => member.member_id === memberId),
+      () => data,
+      async (auditRead) => {
+        await this.repository.updateMember(memberId, data, (current) => {
+          auditRead(current);
+          onRead?.(current);
+        });
+        return true;
+      },
+    );
+  }
+
+  /**
+   * Audited as every field of the member cleared
+   */
+  async removeMember(memberId: string, onRead?: (current: MemberData) => void): Promise<void> {
+    const cleared = Object.fromEntries(MEMBER_FIELDS.map((field) => [field, ''])) as Partial<MemberData>;
+
+    await this.auditWrite(
+      () => this.memberTarget(memberId),
+      MEMBER_FIELDS,
+      (await this.repository.getAllMembers()).find((member) => member.member_id === memberId),
+      () => cleared,
+      async (auditRead) => {
+        await this.repository.removeMember(memberId, (current) => {
+          auditRead(current);
+          onRead?.(current);
+        });
+        return true;
+      },
+    );
+  }
+
+  getDuesTiers(): Promise<Map<string, DuesTierData>> {
+    return this.repository.getDuesTiers();
+  }
+
+  getEmailTemplates(): Promise<EmailTemplateRecord[]> {
+    return this.repository.getEmailTemplates();
+  }
+
+  migrateSchema(): Promise<SchemaMigrationResult[]> {
+    return this.repository.migrateSchema();
+  }
+
+  initialize(): Promise<void> {
+    return this.repository.initialize();
+  }
+
+  getReadiness(): Promise<StorageReadiness> {
+    return this.repository.getReadiness();
+  }
+
+  addAuditRecords(records: AuditRecord[]): Promise<void> {
+    return this.repository.addAuditRecords(records);
+  }
+
+  /**
+   * A member's changes: each write's confirmed entries, or its pending ones while it has no confirmation
+   * (it may or may not have been saved). Writes that changed nothing are left out.
+   */
+  async getAuditRecords(memberId: string): Promise<AuditRecord[]> {
+    const records = await this.repository.getAuditRecords(memberId);
+
+    const outcomes = new Map<string, AuditRecord[]>();
+    for (const record of records) {
+      if (record.write_id && record.status !== 'pending') {
+        outcomes.set(record.write_id, [...(outcomes.get(record.write_id) || []), record]);
+      }
+    }
+
+    return records.flatMap((record) => {
+      // Entries from before writes were confirmed
+      if (!record.write_id) return [record];
+
+      if (record.status !== 'pending') return record.field ? [record] : [];
+      const outcome = outcomes.get(record.write_id);
+      if (!outcome) return [record];
+      // A write confirmed as a whole (an added record, a failed write) keeps its pending entries
+      const whole = outcome.find((r) => !r.field);
+      return whole && ['written', 'failed'].includes(whole.status) ? [{ ...record, status: whole.status }] : [];
+    });
+  }
+}
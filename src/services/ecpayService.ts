@@ -1,7 +1,30 @@
 import * as crypto from 'crypto';
 import config from '../configs';
-
-import { CreatePaymentParams, PaymentCallback, PaymentMethod, QueryTradeInfo } from '../types/ecpayTypes';
+import { TemplateService } from './templateService';
+
+import {
+  CreatePaymentParams,
+  CreditAction,
+  CreditActionResult,
+  PaymentCallback,
+  PaymentInfoCallback,
+  PaymentMethod,
+  PeriodAction,
+  PeriodActionResult,
+  PeriodCallback,
+  QueryTradeInfo,
+} from '../types/ecpayTypes';
+
+// Member ids that fit in a MerchantTradeNo (see generateMerchantTradeNo)
+export const TRADE_NO_MEMBER_ID_PATTERN = /^[A-Za-z0-9]{1,10}$/;
+
+/**
+ * Split a merchant trade number from generateMerchantTradeNo back into member and billing month
+ */
+export const parseMerchantTradeNo = (merchantTradeNo: string): { memberId: string; yyyymm: string } => ({
+  memberId: merchantTradeNo.slice(0, -10),
+  yyyymm: merchantTradeNo.slice(-10, -4),
+});
 
 export class ECPayService {
   private merchantId: string;
@@ -9,22 +32,27 @@ export class ECPayService {
   private hashIV: string;
   private apiUrl: string;
   private queryApiUrl: string;
+  private periodActionApiUrl: string;
+  private creditActionApiUrl: string;
+  private templateService: TemplateService;
 
   constructor() {
     this.merchantId = config.ecpay.merchantId;
     this.hashKey = config.ecpay.hashKey;
     this.hashIV = config.ecpay.hashIV;
+    this.templateService = new TemplateService();
 
-    // Use test or production API URL based on operation mode
-    this.apiUrl =
-      config.ecpay.operationMode === 'Production'
-        ? 'https://payment.ecpay.com.tw/Cashier/AioCheckOut/V5'
-        : 'https://payment-stage.ecpay.com.tw/Cashier/AioCheckOut/V5';
+    // Use test or production API URL based on operation mode, ECPAY_API_BASE_URL points to e.g. the local mock server
+    const baseUrl =
+      config.ecpay.apiBaseUrl ||
+      (config.ecpay.operationMode === 'Production'
+        ? 'https://payment.ecpay.com.tw'
+        : 'https://payment-stage.ecpay.com.tw');
 
-    this.queryApiUrl =
-      config.ecpay.operationMode === 'Production'
-        ? 'https://payment.ecpay.com.tw/Cashier/QueryTradeInfo/V5'
-        : 'https://payment-stage.ecpay.com.tw/Cashier/QueryTradeInfo/V5';
+    this.apiUrl = `${baseUrl}/Cashier/AioCheckOut/V5`;
+    this.queryApiUrl = `${baseUrl}/Cashier/QueryTradeInfo/V5`;
+    this.periodActionApiUrl = `${baseUrl}/Cashier/CreditCardPeriodAction`;
+    this.creditActionApiUrl = `${baseUrl}/CreditDetail/DoAction`;
 
     console.log('✅ ECPay service initialized');
     console.log(`   Mode: ${config.ecpay.operationMode}`);
@@ -40,7 +68,7 @@ export class ECPayService {
    * @param hashIV - ECPay HashIV
    * @returns CheckMacValue string
    */
-  private generateCheckMacValue = (data: Record<string, any>): string => {
+  generateCheckMacValue = (data: Record<string, any>): string => {
     // Sort object keys alphabetically
     const keys = Object.keys(data).sort();
 
@@ -94,17 +122,28 @@ export class ECPayService {
   }
 
   /**
-   * Generate unique merchant trade number
+   * Generate merchant trade number for a member's billing month: memberId + yyyymm + 4 random chars.
+   * ECPay limitation: alphanumeric, max 20 characters, so memberId can be at most 10 characters.
+   * Uniqueness is not guaranteed here, the caller checks it against the month's issued trade numbers:
+   * numbers of other members or months can't be equal, their member and month are part of them.
    */
-  generateMerchantTradeNo(prefix = 'T'): string {
-    const timestamp = Date.now();
-    const random = Math.floor(Math.random() * 1000)
-      .toString()
-      .padStart(3, '0');
-    const tradeNo = `${prefix}${timestamp}${random}`;
+  generateMerchantTradeNo(memberId: string, yyyymm: string): string {
+    if (!/^\d{6}$/.test(yyyymm)) {
+      throw new Error(`Invalid billing month:${yyyymm}`);
+    }
+    if (!TRADE_NO_MEMBER_ID_PATTERN.test(memberId)) {
+      throw new Error(`memberId:${memberId} must be 1-10 alphanumeric characters to fit MerchantTradeNo`);
+    }
+
+    const random = crypto
+      .randomInt(36 ** 4)
+      .toString(36)
+      .padStart(4, '0');
+    return `${memberId}${yyyymm}${random}`;
+  }
 
-    // ECPay limitation: max 20 characters
-    return tradeNo.substring(0, 20);
+  parseMerchantTradeNo(merchantTradeNo: string): { memberId: string; yyyymm: string } {
+    return parseMerchantTradeNo(merchantTradeNo);
   }
 
   /**
@@ -114,7 +153,7 @@ export class ECPayService {
     try {
       const tradeDate = this.generateTradeDate();
 
-      const paymentParams: Record<string, any> = {
+      const paymentParams: Record<string, string | number> = {
         MerchantID: this.merchantId,
         MerchantTradeNo: params.merchantTradeNo,
         MerchantTradeDate: tradeDate,
@@ -123,9 +162,19 @@ export class ECPayService {
         TradeDesc: params.tradeDesc,
         ItemName: params.itemName,
         ReturnURL: params.returnURL,
-        ChoosePayment: 'ALL',
+        ChoosePayment: params.choosePayment || 'ALL',
         EncryptType: 1,
       };
+      if (params.clientBackURL) paymentParams.ClientBackURL = params.clientBackURL;
+      if (params.paymentInfoURL) paymentParams.PaymentInfoURL = params.paymentInfoURL;
+      if (params.period) {
+        paymentParams.ChoosePayment = 'Credit';
+        paymentParams.PeriodAmount = params.period.periodAmount;
+        paymentParams.PeriodType = params.period.periodType;
+        paymentParams.Frequency = params.period.frequency;
+        paymentParams.ExecTimes = params.period.execTimes;
+        paymentParams.PeriodReturnURL = params.period.periodReturnURL;
+      }
 
       // Generate CheckMacValue
       const checkMacValue = this.generateCheckMacValue(paymentParams);
@@ -134,45 +183,8 @@ export class ECPayService {
       console.log('🏪 Creating ECPay payment form');
       console.log(`paymentParams:${JSON.stringify(paymentParams, null, 2)}`);
 
-      const html = `
-      <!DOCTYPE html>
-<html>
-   <head>
-      <meta charset="UTF-8">
-      <title>重導向到付款頁面...</title>
-   </head>
-   <body>
-      <div style="text-align: center; padding: 20px;">
-         <h3>正在重導向到付款頁面...</h3>
-         <p>請稍候...</p>
-      </div>
-      <form id="paymentForm" target="_blank" method="post" action="${this.apiUrl}">
-         <input type="hidden" name="ChoosePayment" value="ALL"><br>
-         <input type="hidden" name="EncryptType" value="1"><br>
-         <input type="hidden" name="ItemName" value="${params.itemName}"><br>
-         <input type="hidden" name="MerchantID" value="${this.merchantId}"><br>
-         <input type="hidden" name="MerchantTradeDate" value="${tradeDate}"><br>
-         <input type="hidden" name="MerchantTradeNo" value="${params.merchantTradeNo}"><br>
-         <input type="hidden" name="PaymentType" value="aio"><br>
-         <input type="hidden" name="ReturnURL" value="https://www.ecpay.com.tw/receive.php"><br>
-         <input type="hidden" name="TotalAmount" value="${params.totalAmount}"><br>
-         <input type="hidden" name="TradeDesc" value="${params.tradeDesc}"><br>
-         <input type="hidden" name="CheckMacValue" value="${checkMacValue}">
-         <div style="text-align: center; margin-top: 20px;">
-            <input type="submit" value="如果沒有自動跳轉，請點擊這裡" style="padding: 10px 20px; font-size: 16px;">
-         </div>
-      </form>
-      <script>
-         window.onload = function() {
-         console.log('Page loaded, submitting form...');
-         setTimeout(function() {
-           document.getElementById('paymentForm').submit();
-         }, 1000);
-         };
-      </script>
-   </body>
-</html>
-   `;
+      // Render exactly the signed map, any field that differs would fail ECPay's CheckMacValue check
+      const html = this.templateService.renderPaymentRedirect(this.apiUrl, paymentParams, params.locale || 'zh-TW');
 
       console.log('✅ Payment created successfully');
       return {
@@ -217,6 +229,94 @@ export class ECPayService {
     }
   }
 
+  /**
+   * Cancel (or re-authorize) a credit card periodic authorization
+   */
+  async periodAction(merchantTradeNo: string, action: PeriodAction): Promise<PeriodActionResult> {
+    const params: Record<string, string> = {
+      MerchantID: this.merchantId,
+      MerchantTradeNo: merchantTradeNo,
+      Action: action,
+      TimeStamp: Math.floor(Date.now() / 1000).toString(),
+    };
+    params.CheckMacValue = this.generateCheckMacValue(params);
+
+    const response = await fetch(this.periodActionApiUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: new URLSearchParams(params).toString(),
+    });
+
+    if (response.status == 200) {
+      const result = new URLSearchParams(await response.text());
+      return {
+        MerchantID: result.get('MerchantID') || '',
+        MerchantTradeNo: result.get('MerchantTradeNo') || '',
+        RtnCode: result.get('RtnCode') || '',
+        RtnMsg: result.get('RtnMsg') || '',
+      };
+    } else {
+      console.error('Response status:', response.status);
+      throw new Error(`Response status:${response.status}`);
+    }
+  }
+
+  /**
+   * Refund / cancel a credit card trade
+   * @param merchantTradeNo - our MerchantTradeNo
+   * @param tradeNo - ECPay TradeNo of the same trade
+   * @param action - R to refund a settled trade, E then N to cancel one that is not settled yet
+   * @param totalAmount - amount to refund / cancel
+   */
+  async creditAction(
+    merchantTradeNo: string,
+    tradeNo: string,
+    action: CreditAction,
+    totalAmount: number,
+  ): Promise<CreditActionResult> {
+    const params: Record<string, string> = {
+      MerchantID: this.merchantId,
+      MerchantTradeNo: merchantTradeNo,
+      TradeNo: tradeNo,
+      Action: action,
+      TotalAmount: totalAmount.toString(),
+    };
+    params.CheckMacValue = this.generateCheckMacValue(params);
+
+    console.log(`💳 ECPay DoAction ${action} ${merchantTradeNo} NT$ ${totalAmount}`);
+    const response = await fetch(this.creditActionApiUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: new URLSearchParams(params).toString(),
+    });
+
+    if (response.status != 200) {
+      console.error('Response status:', response.status);
+      throw new Error(`Response status:${response.status}`);
+    }
+
+    const { CheckMacValue: receivedCheckMac, ...result } = Object.fromEntries(
+      new URLSearchParams(await response.text()),
+    );
+    if (!receivedCheckMac || receivedCheckMac.toUpperCase() !== this.generateCheckMacValue(result)) {
+      throw new Error(
+        `DoAction response CheckMacValue ${receivedCheckMac ? 'mismatch' : 'missing'} for ${merchantTradeNo}`,
+      );
+    }
+
+    return {
+      MerchantID: result.MerchantID || '',
+      MerchantTradeNo: result.MerchantTradeNo || '',
+      TradeNo: result.TradeNo || '',
+      RtnCode: result.RtnCode || '',
+      RtnMsg: result.RtnMsg || '',
+    };
+  }
+
   parseECPayResponse(responseText: string): QueryTradeInfo {
     const params = new URLSearchParams(responseText);
 
@@ -244,21 +344,26 @@ export class ECPayService {
   /**
    * Verify payment callback from ECPay
    */
-  verifyCallback(callbackData: PaymentCallback): boolean {
+  verifyCallback(callbackData: PaymentCallback | PaymentInfoCallback | PeriodCallback): boolean {
     try {
       console.log('🔒 Verifying ECPay callback');
 
-      const receivedCheckMac = callbackData.CheckMacValue;
-      const calculatedCheckMac = this.generateCheckMacValue(callbackData);
+      // CheckMacValue itself is not part of the signed data
+      const { CheckMacValue: receivedCheckMac, ...signedData } = callbackData;
+      if (!receivedCheckMac) {
+        console.log('❌ Callback verification failed: CheckMacValue missing');
+        return false;
+      }
+      const calculatedCheckMac = this.generateCheckMacValue(signedData);
 
-      const isValid = receivedCheckMac === calculatedCheckMac;
+      const isValid = receivedCheckMac.toUpperCase() === calculatedCheckMac;
 
       if (isValid) {
         console.log('✅ Callback verification successful');
         console.log(`   Trade No: ${callbackData.TradeNo}`);
         console.log(`   Merchant Trade No: ${callbackData.MerchantTradeNo}`);
         console.log(`   Amount: NT$ ${callbackData.TradeAmt}`);
-        console.log(`   Status: ${callbackData.RtnCode === 1 ? 'Success' : 'Failed'}`);
+        console.log(`   Status: ${callbackData.RtnCode === '1' ? 'Success' : 'Failed'}`);
       } else {
         console.log('❌ Callback verification failed');
         console.log(`   Received: ${receivedCheckMac}`);
@@ -285,7 +390,7 @@ export class ECPayService {
     message: string;
   } {
     const isValid = this.verifyCallback(callbackData);
-    const isSuccess = callbackData.RtnCode === 1;
+    const isSuccess = callbackData.RtnCode === '1';
 
     return {
       isValid,
@@ -298,6 +403,68 @@ export class ECPayService {
     };
   }
 
+  /**
+   * Process PeriodReturnURL notification (one periodic credit card charge)
+   */
+  processPeriodCallback(periodData: PeriodCallback): {
+    isSuccess: boolean;
+    isValid: boolean;
+    merchantTradeNo: string;
+    amount: number;
+    processDate: string;
+    totalSuccessTimes: number;
+    message: string;
+  } {
+    const isValid = this.verifyCallback(periodData);
+    const isSuccess = periodData.RtnCode === '1';
+
+    return {
+      isValid,
+      isSuccess,
+      merchantTradeNo: periodData.MerchantTradeNo,
+      amount: parseInt(periodData.Amount),
+      processDate: periodData.ProcessDate,
+      totalSuccessTimes: parseInt(periodData.TotalSuccessTimes),
+      message: periodData.RtnMsg,
+    };
+  }
+
+  /**
+   * Process PaymentInfoURL notification (ATM virtual account, CVS code or barcode issued)
+   */
+  processPaymentInfo(infoData: PaymentInfoCallback): {
+    isSuccess: boolean;
+    isValid: boolean;
+    merchantTradeNo: string;
+    paymentType: string;
+    paymentInfo: string;
+    expireDate: string;
+    message: string;
+  } {
+    const isValid = this.verifyCallback(infoData);
+    // ATM succeeds with 2, CVS and BARCODE with 10100073
+    const isSuccess = infoData.RtnCode === '2' || infoData.RtnCode === '10100073';
+
+    let paymentInfo = '';
+    if (infoData.vAccount) {
+      paymentInfo = `銀行代碼:${infoData.BankCode} 虛擬帳號:${infoData.vAccount}`;
+    } else if (infoData.PaymentNo) {
+      paymentInfo = `超商繳費代碼:${infoData.PaymentNo}`;
+    } else if (infoData.Barcode1) {
+      paymentInfo = `超商條碼:${infoData.Barcode1} ${infoData.Barcode2} ${infoData.Barcode3}`;
+    }
+
+    return {
+      isValid,
+      isSuccess,
+      merchantTradeNo: infoData.MerchantTradeNo,
+      paymentType: infoData.PaymentType,
+      paymentInfo,
+      expireDate: infoData.ExpireDate,
+      message: infoData.RtnMsg,
+    };
+  }
+
   /**
    * Get available payment methods
    */
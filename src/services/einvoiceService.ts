@@ -0,0 +1,215 @@
+import * as crypto from 'crypto';
+import config from '../configs';
+
+import { InvoiceAdjustmentResult, IssueInvoiceParams, IssueInvoiceResult } from '../types/ecpayTypes';
+
+export class EInvoiceService {
+  private merchantId: string;
+  private hashKey: string;
+  private hashIV: string;
+  private issueApiUrl: string;
+  private getIssueApiUrl: string;
+  private invalidApiUrl: string;
+  private allowanceApiUrl: string;
+
+  constructor() {
+    this.merchantId = config.einvoice.merchantId;
+    this.hashKey = config.einvoice.hashKey;
+    this.hashIV = config.einvoice.hashIV;
+
+    this.issueApiUrl =
+      config.ecpay.operationMode === 'Production'
+        ? 'https://einvoice.ecpay.com.tw/B2CInvoice/Issue'
+        : 'https://einvoice-stage.ecpay.com.tw/B2CInvoice/Issue';
+    this.getIssueApiUrl =
+      config.ecpay.operationMode === 'Production'
+        ? 'https://einvoice.ecpay.com.tw/B2CInvoice/GetIssue'
+        : 'https://einvoice-stage.ecpay.com.tw/B2CInvoice/GetIssue';
+    this.invalidApiUrl =
+      config.ecpay.operationMode === 'Production'
+        ? 'https://einvoice.ecpay.com.tw/B2CInvoice/Invalid'
+        : 'https://einvoice-stage.ecpay.com.tw/B2CInvoice/Invalid';
+    this.allowanceApiUrl =
+      config.ecpay.operationMode === 'Production'
+        ? 'https://einvoice.ecpay.com.tw/B2CInvoice/Allowance'
+        : 'https://einvoice-stage.ecpay.com.tw/B2CInvoice/Allowance';
+
+    console.log('✅ ECPay e-invoice service initialized');
+    console.log(`   Configured: ${this.isConfigured()}`);
+    console.log(`   Issue API URL: ${this.issueApiUrl}`);
+  }
+
+  /**
+   * Encrypt request Data for the e-invoice API
+   * JSON -> URL encode -> AES-128-CBC (HashKey / HashIV) -> base64
+   */
+  private encryptData = (data: Record<string, any>): string => {
+    const urlEncoded = encodeURIComponent(JSON.stringify(data));
+    const cipher = crypto.createCipheriv('aes-128-cbc', Buffer.from(this.hashKey), Buffer.from(this.hashIV));
+    return Buffer.concat([cipher.update(urlEncoded, 'utf8'), cipher.final()]).toString('base64');
+  };
+
+  /**
+   * Decrypt response Data, the reverse of encryptData
+   */
+  private decryptData = (data: string): Record<string, any> => {
+    const decipher = crypto.createDecipheriv('aes-128-cbc', Buffer.from(this.hashKey), Buffer.from(this.hashIV));
+    const urlEncoded = Buffer.concat([decipher.update(data, 'base64'), decipher.final()]).toString('utf8');
+    return JSON.parse(decodeURIComponent(urlEncoded));
+  };
+
+  /**
+   * Send an encrypted request and return the decrypted response Data
+   */
+  private async request(url: string, data: Record<string, any>): Promise<Record<string, any>> {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        MerchantID: this.merchantId,
+        RqHeader: {
+          Timestamp: Math.floor(Date.now() / 1000),
+        },
+        Data: this.encryptData(data),
+      }),
+    });
+
+    if (response.status != 200) {
+      console.error('Response status:', response.status);
+      throw new Error(`Response status:${response.status}`);
+    }
+
+    const body = (await response.json()) as { TransCode: number; TransMsg: string; Data: string };
+    // TransCode reports whether the envelope itself was accepted (e.g. decryptable)
+    if (body.TransCode !== 1) {
+      throw new Error(`e-invoice API TransCode:${body.TransCode} ${body.TransMsg}`);
+    }
+
+    return this.decryptData(body.Data);
+  }
+
+  /**
+   * Issue a B2C e-invoice, stored in the member's ECPay carrier or donated when a love code is configured
+   */
+  async issueInvoice(params: IssueInvoiceParams): Promise<IssueInvoiceResult> {
+    const isDonation = !!config.einvoice.loveCode;
+
+    const data = {
+      MerchantID: this.merchantId,
+      RelateNumber: params.relateNumber,
+      CustomerID: params.customerId,
+      CustomerIdentifier: '',
+      CustomerName: '',
+      CustomerAddr: '',
+      CustomerPhone: '',
+      CustomerEmail: params.customerEmail,
+      Print: '0',
+      Donation: isDonation ? '1' : '0',
+      LoveCode: config.einvoice.loveCode,
+      CarrierType: isDonation ? '' : '1',
+      CarrierNum: '',
+      TaxType: config.einvoice.taxType,
+      SalesAmount: params.amount,
+      InvType: '07',
+      vat: '1',
+      Items: [
+        {
+          ItemSeq: 1,
+          ItemName: params.itemName,
+          ItemCount: 1,
+          ItemWord: '式',
+          ItemPrice: params.amount,
+          ItemTaxType: config.einvoice.taxType,
+          ItemAmount: params.amount,
+        },
+      ],
+    };
+
+    console.log(`🧾 Issuing e-invoice ${params.relateNumber} NT$ ${params.amount}`);
+    const result = await this.request(this.issueApiUrl, data);
+
+    return {
+      RtnCode: result.RtnCode,
+      RtnMsg: result.RtnMsg || '',
+      InvoiceNo: result.InvoiceNo || '',
+      InvoiceDate: result.InvoiceDate || '',
+      RandomNumber: result.RandomNumber || '',
+    };
+  }
+
+  /**
+   * Look up an issued invoice by its RelateNumber, RtnCode is not 1 when none was issued
+   */
+  async queryInvoice(relateNumber: string): Promise<IssueInvoiceResult> {
+    const result = await this.request(this.getIssueApiUrl, {
+      MerchantID: this.merchantId,
+      RelateNumber: relateNumber,
+    });
+
+    return {
+      RtnCode: result.RtnCode,
+      RtnMsg: result.RtnMsg || '',
+      InvoiceNo: result.IIS_Number || '',
+      InvoiceDate: result.IIS_Create_Date || '',
+      RandomNumber: result.IIS_Random_Number || '',
+    };
+  }
+
+  /**
+   * Void a whole invoice (refunded in full). invoiceDate is the issued InvoiceDate, only its day is sent.
+   */
+  async invalidInvoice(invoiceNo: string, invoiceDate: string, reason: string): Promise<InvoiceAdjustmentResult> {
+    console.log(`🧾 Voiding e-invoice ${invoiceNo}`);
+    const result = await this.request(this.invalidApiUrl, {
+      MerchantID: this.merchantId,
+      InvoiceNo: invoiceNo,
+      InvoiceDate: invoiceDate.slice(0, 10).replace(/\//g, '-'),
+      Reason: reason,
+    });
+
+    return { RtnCode: result.RtnCode, RtnMsg: result.RtnMsg || '', AllowanceNo: '' };
+  }
+
+  /**
+   * Credit part of an invoice (partial refund), the member is notified by email
+   */
+  async allowanceInvoice(
+    invoiceNo: string,
+    invoiceDate: string,
+    params: { customerEmail: string; itemName: string; amount: number },
+  ): Promise<InvoiceAdjustmentResult> {
+    console.log(`🧾 Allowance NT$ ${params.amount} on e-invoice ${invoiceNo}`);
+    const result = await this.request(this.allowanceApiUrl, {
+      MerchantID: this.merchantId,
+      InvoiceNo: invoiceNo,
+      InvoiceDate: invoiceDate.slice(0, 10).replace(/\//g, '-'),
+      AllowanceNotify: 'E',
+      CustomerName: '',
+      NotifyMail: params.customerEmail,
+      NotifyPhone: '',
+      AllowanceAmount: params.amount,
+      Items: [
+        {
+          ItemSeq: 1,
+          ItemName: params.itemName,
+          ItemCount: 1,
+          ItemWord: '式',
+          ItemPrice: params.amount,
+          ItemTaxType: config.einvoice.taxType,
+          ItemAmount: params.amount,
+        },
+      ],
+    });
+
+    return { RtnCode: result.RtnCode, RtnMsg: result.RtnMsg || '', AllowanceNo: result.IA_Allow_No || '' };
+  }
+
+  /**
+   * Check if service is configured
+   */
+  isConfigured(): boolean {
+    return !!(this.merchantId && this.hashKey && this.hashIV);
+  }
+}
@@ -213,6 +213,7 @@ export class EmailService {
               to: data.to,
               subject: data.subject,
               text: data.text,
+              html: data.html,
               attachments: data.attachments,
             };
 
@@ -0,0 +1,204 @@
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+import config from '../configs';
+import {
+  EmailTemplateRepository,
+  MemberData,
+  MemberRepository,
+  PaymentRecord,
+  PaymentRepository,
+} from '../types/repositoryTypes';
+import { EmailContent, EmailTemplate, EmailTemplatePreview } from '../types';
+import {
+  EMAIL_MERGE_FIELDS,
+  EMAIL_TEMPLATE_NAMES,
+  EmailTemplateName,
+  emailTemplates,
+} from '../templates/emailTemplates';
+import { TemplateService } from './templateService';
+
+const EMAIL_PARTS: (keyof EmailContent)[] = ['subject', 'text', 'html'];
+// <name>.<extension> in EMAIL_TEMPLATE_DIR
+const FILE_EXTENSIONS: Record<keyof EmailContent, string> = { subject: 'subject.txt', text: 'txt', html: 'html' };
+const PLACEHOLDER_PATTERN = /\{\{\{?\s*(\w+)\s*\}?\}\}/g;
+
+// Previewed when no member is given
+const SAMPLE_MEMBER: Pick<MemberData, 'member_id' | 'member_name' | 'member_email'> = {
+  member_id: 'A001',
+  member_name: '王小明',
+  member_email: 'member@example.com',
+};
+const SAMPLE_RECORD: Partial<PaymentRecord> = {
+  ...SAMPLE_MEMBER,
+  payment_link: 'sample',
+  payment_info: '銀行代碼: 812\n虛擬帳號: 1234567890123456',
+  payment_expire_date: '2026/01/03',
+  invoice_no: 'AB12345678',
+  invoice_date: '2026/01/01 10:00:00',
+};
+
+/**
+ * Named member emails with text and HTML parts. The board edits the wording in the Email_templates sheet
+ * (or EMAIL_TEMPLATE_DIR) and checks it with /email/preview, no deploy needed.
+ */
+export class EmailTemplateService {
+  private emailTemplateRepository: EmailTemplateRepository;
+  private paymentRepository: PaymentRepository;
+  private memberRepository: MemberRepository;
+  private templateService: TemplateService;
+
+  constructor(
+    emailTemplateRepository: EmailTemplateRepository,
+    paymentRepository: PaymentRepository,
+    memberRepository: MemberRepository,
+    templateService: TemplateService,
+  ) {
+    this.emailTemplateRepository = emailTemplateRepository;
+    this.paymentRepository = paymentRepository;
+    this.memberRepository = memberRepository;
+    this.templateService = templateService;
+  }
+
+  isTemplateName(name: string): name is EmailTemplateName {
+    return (EMAIL_TEMPLATE_NAMES as readonly string[]).includes(name);
+  }
+
+  /**
+   * Each part is taken from the Email_templates sheet row, else the EMAIL_TEMPLATE_DIR file, else the built-in wording
+   */
+  async getTemplate(name: EmailTemplateName): Promise<EmailTemplate> {
+    const row = (await this.emailTemplateRepository.getEmailTemplates()).find((t) => t.name === name);
+    const builtIn: EmailContent = { subject: this.defaultSubject(name), ...emailTemplates[name] };
+
+    const template: EmailTemplate = {
+      name,
+      ...builtIn,
+      sources: { subject: 'built-in', text: 'built-in', html: 'built-in' },
+    };
+    for (const part of EMAIL_PARTS) {
+      const filePath = config.mail.templateDir && join(config.mail.templateDir, `${name}.${FILE_EXTENSIONS[part]}`);
+      if (row?.[part].trim()) {
+        template[part] = row[part];
+        template.sources[part] = 'sheet';
+      } else if (filePath && existsSync(filePath)) {
+        template[part] = readFileSync(filePath, 'utf8');
+        template.sources[part] = 'file';
+      }
+    }
+    return template;
+  }
+
+  /**
+   * Fill the merge fields, values are escaped in the html part only
+   */
+  render(template: EmailContent, values: Record<string, string>): EmailContent {
+    const merged = { union_name: config.page.unionName, ...values };
+    return {
+      subject: this.templateService.renderText(template.subject, merged).trim(),
+      text: this.templateService.renderText(template.text, merged),
+      html: this.templateService.render(template.html, merged),
+    };
+  }
+
+  /**
+   * Merge fields of a member's month (see EMAIL_MERGE_FIELDS)
+   */
+  mergeValues(
+    name: EmailTemplateName,
+    yyyymm: string,
+    record: Partial<PaymentRecord>,
+    member?: Pick<MemberData, 'member_name'>,
+  ): Record<string, string> {
+    const amountDue = record.amount_due || config.ecpay.totalAmount;
+    return {
+      member_id: record.member_id || '',
+      member_name: member?.member_name || '',
+      member_email: record.member_email || '',
+      yyyymm,
+      year: yyyymm.slice(0, 4),
+      month: String(Number(yyyymm.slice(4))),
+      period: `${yyyymm.slice(0, 4)}/${yyyymm.slice(4)}`,
+      item_name: record.item_name || config.ecpay.itemName,
+      amount: name === 'receipt' ? record.paid_amount || amountDue : amountDue,
+      due_date: this.dueDate(yyyymm),
+      payment_link: `${config.mail.paymentPath}paymentLink=${record.payment_link || ''}`,
+      payment_info: record.payment_info || '',
+      expire_date: record.payment_expire_date || '',
+      invoice_no: record.invoice_no || '',
+      invoice_date: record.invoice_date || '',
+      invoice_line: record.invoice_no ? `電子發票號碼: ${record.invoice_no} (開立日期: ${record.invoice_date})` : '',
+      reminder_number: String((Number(record.reminder_count) || 0) + 1),
+    };
+  }
+
+  /**
+   * Render a template for one member's month, looking up the member's name.
+   * values adds merge fields not on the record (cancel_link).
+   */
+  async renderForMember(
+    name: EmailTemplateName,
+    yyyymm: string,
+    record: PaymentRecord,
+    values: Record<string, string> = {},
+  ): Promise<EmailContent> {
+    const template = await this.getTemplate(name);
+    const member = (await this.memberRepository.getAllMembers()).find((m) => m.member_id === record.member_id);
+    return this.render(template, { ...this.mergeValues(name, yyyymm, record, member), ...values });
+  }
+
+  /**
+   * Render a template with a member's record of the month, or with a sample member when memberId is not given.
+   * The payment link and payment details are always the sample ones, a live link or account would pay the dues.
+   * undefined when the member has no record in the month.
+   */
+  async preview(name: EmailTemplateName, yyyymm: string, memberId?: string): Promise<EmailTemplatePreview | undefined> {
+    const template = await this.getTemplate(name);
+
+    let values: Record<string, string>;
+    if (memberId) {
+      const record = await this.paymentRepository.getPaymentData(yyyymm, memberId);
+      if (!record) return undefined;
+      const member = (await this.memberRepository.getAllMembers()).find((m) => m.member_id === memberId);
+      const { payment_link, payment_info } = SAMPLE_RECORD;
+      values = this.mergeValues(name, yyyymm, { ...record, payment_link, payment_info }, member);
+    } else {
+      values = this.mergeValues(name, yyyymm, SAMPLE_RECORD, SAMPLE_MEMBER);
+    }
+    values.cancel_link = `${config.mail.subscriptionCancelPath}token=sample`;
+
+    const unknownFields = new Set<string>();
+    for (const part of EMAIL_PARTS) {
+      for (const [, field] of template[part].matchAll(PLACEHOLDER_PATTERN)) {
+        if (!(field in EMAIL_MERGE_FIELDS)) unknownFields.add(field);
+      }
+    }
+
+    return { ...template, ...this.render(template, values), unknownFields: [...unknownFields] };
+  }
+
+  private defaultSubject(name: EmailTemplateName): string {
+    switch (name) {
+      case 'payment_link':
+        return config.mail.subject || '';
+      case 'payment_info':
+        return config.mail.paymentInfoSubject;
+      case 'receipt':
+        return config.mail.receiptSubject;
+      case 'subscription':
+        return config.mail.subscriptionSubject;
+      case 'reminder_1':
+      case 'reminder_2':
+      case 'reminder_3':
+        return config.mail.reminderSubject;
+    }
+  }
+
+  /**
+   * yyyy/MM/dd of DUES_DUE_DAY in the month, the last day when unset or past the month's end
+   */
+  private dueDate(yyyymm: string): string {
+    const lastDay = new Date(Number(yyyymm.slice(0, 4)), Number(yyyymm.slice(4)), 0).getDate();
+    const day = config.dues.dueDay > 0 ? Math.min(config.dues.dueDay, lastDay) : lastDay;
+    return `${yyyymm.slice(0, 4)}/${yyyymm.slice(4)}/${String(day).padStart(2, '0')}`;
+  }
+}
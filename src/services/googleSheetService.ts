@@ -1,25 +1,60 @@
 // import { GoogleSpreadsheet, GoogleSpreadsheetWorksheet } from 'google-spreadsheet';
-import { GoogleSpreadsheet, GoogleSpreadsheetWorksheet } from 'google-spreadsheet';
+import {
+  GoogleSpreadsheet,
+  GoogleSpreadsheetCell,
+  GoogleSpreadsheetRow,
+  GoogleSpreadsheetWorksheet,
+} from 'google-spreadsheet';
 import { JWT } from 'google-auth-library';
+import config from '../configs';
 
-interface MemberData {
-  member_id: string;
-  member_email: string;
-}
-
-export interface PaymentRecord {
-  member_id: string;
-  member_email: string;
-  payment_link: string | undefined;
-  payment_link_sent: string | undefined;
-  unique_payment_link: string | undefined;
-  paid: string | undefined;
-  paid_date: string | undefined;
-}
+import {
+  AUDIT_FIELDS,
+  AuditRecord,
+  DuesTierData,
+  EMAIL_TEMPLATE_FIELDS,
+  EmailTemplateRecord,
+  LEDGER_FIELDS,
+  LedgerRecord,
+  MEMBER_FIELDS,
+  MemberData,
+  MemberStatus,
+  PAYMENT_RECORD_FIELDS,
+  PaymentBatchUpdateResult,
+  PaymentRecord,
+  Repository,
+  SUBSCRIPTION_FIELDS,
+  SubscriptionRecord,
+  TRADE_NO_FIELDS,
+  SchemaMigrationResult,
+  StorageReadiness,
+  TradeNoRecord,
+} from '../types/repositoryTypes';
+import {
+  AUDIT_SHEET_TITLE,
+  DUES_TIER_SHEET_TITLE,
+  EMAIL_TEMPLATE_SHEET_TITLE,
+  LEDGER_SHEET_TITLE,
+  MEMBER_SHEET_TITLE,
+  SUBSCRIPTION_SHEET_TITLE,
+  TRADE_NO_SHEET_TITLE,
+  findSheetSchema,
+  validateHeaders,
+} from './sheetSchemas';
+// Cells per batchUpdate request of a batch update
+const CELL_UPDATE_CHUNK_SIZE = 2000;
+// Attempts of a payment record write that keeps being overwritten by concurrent writes
+const MAX_WRITE_ATTEMPTS = 3;
 
-export class GoogleSheetsService {
+export class GoogleSheetsService implements Repository {
   private doc: GoogleSpreadsheet;
   private serviceAccountAuth: JWT;
+  // Sheets whose header row passed validation in this process
+  private validatedSheetIds: Set<number>;
+  // Pending or completed load of the spreadsheet metadata, shared by concurrent requests
+  private metadata: Promise<void> | undefined;
+  private metadataRequestedAt: number;
+  private metadataLoadedAt: number;
 
   constructor(spreadsheetId: string, serviceAccountKey: any) {
     this.serviceAccountAuth = new JWT({
@@ -29,199 +64,790 @@ export class GoogleSheetsService {
     });
 
     this.doc = new GoogleSpreadsheet(spreadsheetId, this.serviceAccountAuth);
-    this.doc.loadInfo();
+    this.validatedSheetIds = new Set();
+    this.metadataRequestedAt = 0;
+    this.metadataLoadedAt = 0;
   }
 
   /**
-   * Generate payment links for all members and update monthly sheet
+   * Load the spreadsheet metadata, or reload it when older than GOOGLE_SHEET_METADATA_TTL_SECONDS
+   * (sheets may be added by other instances). Reloaded sheets have their header rows validated again on next
+   * access. A failed reload keeps serving the metadata loaded before.
    */
-  async generatePaymentLinks(): Promise<void> {
+  async initialize(forceRefresh = false): Promise<void> {
+    const expired = Date.now() - this.metadataRequestedAt > config.googleSheet.metadataTtlSeconds * 1000;
+    if (this.metadata && !forceRefresh && !expired) return this.metadata;
+
+    this.metadataRequestedAt = Date.now();
+    const metadata = this.doc.loadInfo().then(
+      () => {
+        if (this.metadataLoadedAt === 0) {
+          console.log(`✅ Spreadsheet "${this.doc.title}" loaded, ${this.doc.sheetCount} sheets`);
+        }
+        this.metadataLoadedAt = Date.now();
+        this.validatedSheetIds.clear();
+      },
+      (error) => {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        if (this.metadataLoadedAt > 0 && !forceRefresh) {
+          console.warn(`⚠️  Reloading spreadsheet metadata failed, using the one loaded before: ${message}`);
+          return;
+        }
+        // Not cached, the next call tries again
+        if (this.metadata === metadata) this.metadata = undefined;
+        throw new Error(`Failed to load spreadsheet metadata: ${message}`);
+      },
+    );
+    this.metadata = metadata;
+    return metadata;
+  }
+
+  async getReadiness(): Promise<StorageReadiness> {
     try {
-      // await this.doc.loadInfo();
-      console.log('Connected to Google Sheets:', this.doc.title);
-
-      // Get current year-month format (YYYYMM)
-      const now = new Date();
-      const yyyymm = `${now.getFullYear()}${(now.getMonth() + 1).toString().padStart(2, '0')}`;
-
-      // Read members from All_members sheet
-      const members = await this.getAllMembers();
-      console.log(`Found ${members.length} members`);
-
-      // Get or create monthly sheet
-      const monthlySheet = await this.getOrCreateMonthlySheet(yyyymm);
-
-      // Generate payment links and update monthly sheet
-      for (const member of members) {
-        const paymentLink = `${member.member_id}_${yyyymm}`;
-
-        await this.addPaymentRecord(monthlySheet, {
-          member_id: member.member_id,
-          member_email: member.member_email,
-          payment_link: paymentLink,
-          payment_link_sent: 'N',
-          unique_payment_link: '', // Leave blank
-          paid: '', // Leave blank
-          paid_date: '', // Leave blank
-        } as PaymentRecord);
-
-        console.log(`Generated payment link for ${member.member_id}: ${paymentLink}`);
+      await this.initialize();
+      return {
+        backend: 'sheets',
+        ready: true,
+        message: `spreadsheet "${this.doc.title}", ${this.doc.sheetCount} sheets, metadata loaded at ${new Date(this.metadataLoadedAt).toISOString()}`,
+      };
+    } catch (error) {
+      return { backend: 'sheets', ready: false, message: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  /**
+   * Sheets by title from the cached metadata
+   */
+  private async getSheetsByTitle(): Promise<Record<string, GoogleSpreadsheetWorksheet>> {
+    await this.initialize();
+    return this.doc.sheetsByTitle;
+  }
+
+  /**
+   * Get a sheet by title, undefined when it doesn't exist. On first access its header row is
+   * checked against the sheet type's schema (see sheetSchemas), a sheet missing required columns throws.
+   */
+  private async getSheet(title: string): Promise<GoogleSpreadsheetWorksheet | undefined> {
+    const sheet = (await this.getSheetsByTitle())[title];
+    if (!sheet || this.validatedSheetIds.has(sheet.sheetId)) return sheet;
+
+    const schema = findSheetSchema(title);
+    if (schema) {
+      try {
+        await sheet.loadHeaderRow();
+      } catch (error) {
+        throw new Error(`sheet:${title} ${error instanceof Error ? error.message : 'header row unreadable'}`);
       }
 
-      console.log('✅ Payment links generation completed');
-    } catch (error) {
-      console.error('❌ Error generating payment links:', error);
-      throw error;
+      const { errors, warnings } = validateHeaders(schema, sheet.headerValues);
+      for (const warning of warnings) {
+        console.warn(`⚠️  sheet:${title} ${warning}`);
+      }
+      if (errors.length > 0) {
+        throw new Error(`sheet:${title} doesn't match the ${schema.name} schema: ${errors.join('; ')}`);
+      }
     }
+
+    this.validatedSheetIds.add(sheet.sheetId);
+    return sheet;
   }
 
-  async updatePaymentData(sheetName: string, memberId: string, data: PaymentRecord): Promise<void> {
+  /**
+   * Read a row into a record by its schema columns, missing cells read as ''
+   */
+  private readRow<T>(row: GoogleSpreadsheetRow, fields: (keyof T)[]): T {
+    return Object.fromEntries(fields.map((field) => [field, row.get(field as string) || ''])) as T;
+  }
+
+  /**
+   * Validate every known sheet and add the schema columns it lacks, appended after the existing ones
+   * so no data moves. Sheets with errors are reported and left untouched.
+   */
+  async migrateSchema(): Promise<SchemaMigrationResult[]> {
+    await this.initialize(true);
+
+    const results: SchemaMigrationResult[] = [];
+    for (const sheet of this.doc.sheetsByIndex) {
+      const schema = findSheetSchema(sheet.title);
+      if (!schema) continue;
+
+      const result: SchemaMigrationResult = { name: sheet.title, added: [], errors: [], warnings: [] };
+      results.push(result);
+      try {
+        await sheet.loadHeaderRow();
+      } catch (error) {
+        result.errors.push(error instanceof Error ? error.message : 'header row unreadable');
+        continue;
+      }
+
+      const { missing, errors, warnings } = validateHeaders(schema, sheet.headerValues);
+      result.errors.push(...errors);
+      result.warnings.push(...warnings);
+      if (errors.length > 0) continue;
+
+      await this.ensureColumns(sheet, missing);
+      result.added = missing;
+      this.validatedSheetIds.add(sheet.sheetId);
+    }
+
+    console.log(
+      `✅ Schema migration done. Sheets: ${results.length}, Migrated: ${results.filter((r) => r.added.length).length}, With errors: ${results.filter((r) => r.errors.length).length}`,
+    );
+    return results;
+  }
+
+  async updatePaymentData(
+    sheetName: string,
+    memberId: string,
+    data: Partial<PaymentRecord>,
+    precondition?: (current: PaymentRecord) => boolean,
+  ): Promise<boolean> {
     console.log(`[updatePaymentData] sheetName:${sheetName} memberId:${memberId}`);
 
-    const sheet = this.doc.sheetsByTitle[sheetName];
+    const sheet = await this.getSheet(sheetName);
     if (!sheet) {
       throw new Error(`sheet:${sheetName} not found`);
     }
 
-    const rows = await sheet.getRows();
-    const targetRow = rows.filter((r) => r.get('member_id') === memberId)[0];
-    if (data.payment_link != undefined) targetRow.set('payment_link', data.payment_link);
-    if (data.payment_link_sent != undefined) targetRow.set('payment_link_sent', data.payment_link_sent);
-    if (data.unique_payment_link != undefined) targetRow.set('unique_payment_link', data.unique_payment_link);
-    if (data.paid != undefined) targetRow.set('paid', data.paid);
-    if (data.paid_date != undefined) targetRow.set('paid_date', data.paid_date);
-    await targetRow.save();
+    const outcome = await this.updateRowCells(sheet, 'member_id', memberId, PAYMENT_RECORD_FIELDS, data, precondition);
+    if (outcome === 'not_found') {
+      throw new Error(`member:${memberId} not found in sheet:${sheetName}`);
+    }
+    return outcome === 'written';
+  }
+
+  /**
+   * Update the first row whose keyField is keyValue through writeRowCells, retried from a fresh read while
+   * writes race it
+   */
+  private async updateRowCells<T>(
+    sheet: GoogleSpreadsheetWorksheet,
+    keyField: keyof T & string,
+    keyValue: string,
+    fields: (keyof T & string)[],
+    data: Partial<T>,
+    precondition?: (current: T) => boolean,
+  ): Promise<'written' | 'precondition_failed' | 'not_found'> {
+    for (let attempt = 1; attempt <= MAX_WRITE_ATTEMPTS; attempt++) {
+      const rows = await sheet.getRows();
+      await this.ensureColumns(sheet, fields);
+      const targetRow = rows.find((r) => r.get(keyField) === keyValue);
+      if (!targetRow) return 'not_found';
+
+      const outcome = await this.writeRowCells(
+        sheet,
+        targetRow.rowNumber - 1,
+        keyField,
+        keyValue,
+        fields,
+        data,
+        precondition,
+      );
+      if (outcome !== 'conflict') return outcome;
+
+      console.warn(`⚠️  ${keyField}:${keyValue} in sheet:${sheet.title} was written concurrently, retry (${attempt})`);
+      await new Promise((resolve) => setTimeout(resolve, 200 * attempt + Math.random() * 200));
+    }
+    throw new Error(
+      `${keyField}:${keyValue} in sheet:${sheet.title} kept changing, gave up after ${MAX_WRITE_ATTEMPTS} attempts`,
+    );
+  }
+
+  /**
+   * Write data's defined fields into the cells of one row, and only those: row.save() rewrites the
+   * whole row and would put back stale values of fields a concurrent request just wrote (paid...).
+   * Sheets has no conditional write, so this comes as close to compare-and-set as it can: the row is re-read
+   * right before writing (still the key's row, precondition holds) and after it (our values weren't overwritten
+   * by a write racing ours); 'conflict' means the caller should retry from a fresh read.
+   */
+  private async writeRowCells<T>(
+    sheet: GoogleSpreadsheetWorksheet,
+    rowIndex: number,
+    keyField: keyof T & string,
+    keyValue: string,
+    fields: (keyof T & string)[],
+    data: Partial<T>,
+    precondition?: (current: T) => boolean,
+  ): Promise<'written' | 'precondition_failed' | 'conflict'> {
+    const range = {
+      startRowIndex: rowIndex,
+      endRowIndex: rowIndex + 1,
+      startColumnIndex: 0,
+      endColumnIndex: sheet.headerValues.length,
+    };
+
+    await sheet.loadCells(range);
+    if (this.cellValue(sheet, rowIndex, keyField) !== keyValue) return 'conflict';
+    if (precondition && !precondition(this.readCells<T>(sheet, rowIndex, fields))) return 'precondition_failed';
+
+    const changed = this.setChangedCells(sheet, rowIndex, fields, data);
+    if (changed.length === 0) return 'written';
+    await sheet.saveCells(changed);
+
+    await sheet.loadCells(range);
+    return this.holdsData(sheet, rowIndex, fields, data) ? 'written' : 'conflict';
   }
 
-  async updatePaymentDataBatch(sheetName: string, memberIds: string[], datas: PaymentRecord[]): Promise<void> {
-    console.log(`[updatePaymentDataBatch] sheetName:${sheetName}`);
+  private cellOf(sheet: GoogleSpreadsheetWorksheet, rowIndex: number, field: string): GoogleSpreadsheetCell {
+    return sheet.getCell(rowIndex, sheet.headerValues.indexOf(field));
+  }
+
+  /**
+   * Value of a loaded cell as the string rows read, '' when empty
+   */
+  private cellValue(sheet: GoogleSpreadsheetWorksheet, rowIndex: number, field: string): string {
+    return this.cellOf(sheet, rowIndex, field).value?.toString() ?? '';
+  }
+
+  /**
+   * Read a loaded row into a record by its schema columns, like readRow
+   */
+  private readCells<T>(sheet: GoogleSpreadsheetWorksheet, rowIndex: number, fields: (keyof T & string)[]): T {
+    return Object.fromEntries(fields.map((field) => [field, this.cellValue(sheet, rowIndex, field)])) as T;
+  }
+
+  /**
+   * Set the loaded cells whose value data changes, returned to be saved
+   */
+  private setChangedCells<T>(
+    sheet: GoogleSpreadsheetWorksheet,
+    rowIndex: number,
+    fields: (keyof T & string)[],
+    data: Partial<T>,
+  ): GoogleSpreadsheetCell[] {
+    return fields
+      .filter((field) => data[field] != undefined && this.cellValue(sheet, rowIndex, field) !== String(data[field]))
+      .map((field) => {
+        const cell = this.cellOf(sheet, rowIndex, field);
+        cell.value = String(data[field]);
+        return cell;
+      });
+  }
+
+  private holdsData<T>(
+    sheet: GoogleSpreadsheetWorksheet,
+    rowIndex: number,
+    fields: (keyof T & string)[],
+    data: Partial<T>,
+  ): boolean {
+    return fields.every(
+      (field) => data[field] == undefined || this.cellValue(sheet, rowIndex, field) === String(data[field]),
+    );
+  }
+
+  /**
+   * Update many members' records with one read and batched cell writes (one API call per chunk)
+   * instead of a save per row, checked like writeRowCells: a row that moved or whose values a racing write
+   * replaced is written again on its own through updatePaymentData. Members without a row are reported, not thrown.
+   */
+  async updatePaymentDataBatch(
+    sheetName: string,
+    memberIds: string[],
+    datas: Partial<PaymentRecord>[],
+    onRead?: (current: PaymentRecord) => void,
+  ): Promise<PaymentBatchUpdateResult> {
+    console.log(`[updatePaymentDataBatch] sheetName:${sheetName} members:${memberIds.length}`);
     const idLength = memberIds.length;
     const dataLength = datas.length;
     if (idLength != dataLength) throw new Error('idLength != dataLength');
 
-    const sheet = this.doc.sheetsByTitle[sheetName];
+    const sheet = await this.getSheet(sheetName);
     if (!sheet) {
       throw new Error(`sheet:${sheetName} not found`);
     }
 
     const rows = await sheet.getRows();
-    for (let i = 0; i < memberIds.length; i++) {
-      const memberId = memberIds[i];
-      const targetRow = rows.filter((r) => r.get('member_id') === memberId)[0];
-      const data = datas[i];
-      if (data.payment_link != undefined) targetRow.set('payment_link', data.payment_link);
-      if (data.payment_link_sent != undefined) targetRow.set('payment_link_sent', data.payment_link_sent);
-      if (data.unique_payment_link != undefined) targetRow.set('unique_payment_link', data.unique_payment_link);
-      if (data.paid != undefined) targetRow.set('paid', data.paid);
-      if (data.paid_date != undefined) targetRow.set('paid_date', data.paid_date);
-      await targetRow.save();
+    await this.ensureColumns(sheet, PAYMENT_RECORD_FIELDS);
+
+    // First row of a member_id wins, like updatePaymentData
+    const rowIndexByMemberId = new Map<string, number>();
+    for (const row of rows) {
+      const memberId = row.get('member_id');
+      if (memberId && !rowIndexByMemberId.has(memberId)) rowIndexByMemberId.set(memberId, row.rowNumber - 1);
+    }
+
+    const result: PaymentBatchUpdateResult = { updated: [], notFound: [] };
+    const targets: { memberId: string; rowIndex: number; data: Partial<PaymentRecord> }[] = [];
+    memberIds.forEach((memberId, i) => {
+      const rowIndex = rowIndexByMemberId.get(memberId);
+      if (rowIndex === undefined) {
+        console.warn(`⚠️  member:${memberId} not found in sheet:${sheetName}`);
+        result.notFound.push(memberId);
+      } else {
+        targets.push({ memberId, rowIndex, data: datas[i] });
+      }
+    });
+    if (targets.length === 0) return result;
+
+    const rowIndexes = targets.map((t) => t.rowIndex);
+    const range = {
+      startRowIndex: Math.min(...rowIndexes),
+      endRowIndex: Math.max(...rowIndexes) + 1,
+      startColumnIndex: 0,
+      endColumnIndex: sheet.headerValues.length,
+    };
+    await sheet.loadCells(range);
+
+    const retries: typeof targets = [];
+    const written: typeof targets = [];
+    const cells: GoogleSpreadsheetCell[] = [];
+    for (const target of targets) {
+      if (this.cellValue(sheet, target.rowIndex, 'member_id') !== target.memberId) {
+        retries.push(target);
+        continue;
+      }
+      onRead?.(this.readCells<PaymentRecord>(sheet, target.rowIndex, PAYMENT_RECORD_FIELDS));
+      cells.push(...this.setChangedCells(sheet, target.rowIndex, PAYMENT_RECORD_FIELDS, target.data));
+      written.push(target);
+    }
+
+    for (let i = 0; i < cells.length; i += CELL_UPDATE_CHUNK_SIZE) {
+      await sheet.saveCells(cells.slice(i, i + CELL_UPDATE_CHUNK_SIZE));
+    }
+    if (cells.length > 0) {
+      await sheet.loadCells(range);
+    }
+    for (const target of written) {
+      if (this.holdsData(sheet, target.rowIndex, PAYMENT_RECORD_FIELDS, target.data)) {
+        result.updated.push(target.memberId);
+      } else {
+        retries.push(target);
+      }
     }
+    console.log(`Updated ${cells.length} cells of ${result.updated.length} members in sheet:${sheetName}`);
+
+    for (const { memberId, data } of retries) {
+      console.warn(`⚠️  member:${memberId} in sheet:${sheetName} was written concurrently, write it again`);
+      const outcome = await this.updateRowCells(
+        sheet,
+        'member_id',
+        memberId,
+        PAYMENT_RECORD_FIELDS,
+        data,
+        (current) => {
+          onRead?.(current);
+          return true;
+        },
+      );
+      if (outcome === 'not_found') result.notFound.push(memberId);
+      else result.updated.push(memberId);
+    }
+
+    return result;
+  }
+
+  public async hasMonth(sheetName: string): Promise<boolean> {
+    return !!(await this.getSheetsByTitle())[sheetName];
+  }
+
+  /**
+   * Monthly sheets are the ones titled yyyymm
+   */
+  public async getMonths(): Promise<string[]> {
+    return Object.keys(await this.getSheetsByTitle())
+      .filter((title) => /^\d{6}$/.test(title))
+      .sort();
   }
 
   /**
    * Read all members from yyyymm sheet
    */
   public async getAllPaymentDatas(sheetName: string): Promise<PaymentRecord[]> {
-    const sheet = this.doc.sheetsByTitle[sheetName];
+    const sheet = await this.getSheet(sheetName);
     if (!sheet) {
       throw new Error(`sheet:${sheetName} not found`);
     }
 
+    const rows = await sheet.getRows();
+    return rows.map((row) => this.toPaymentRecord(row)).filter((member) => member.member_id && member.member_email);
+  }
+
+  /**
+   * Read a single member's payment record from yyyymm sheet, undefined when the sheet or row doesn't exist
+   */
+  public async getPaymentData(sheetName: string, memberId: string): Promise<PaymentRecord | undefined> {
+    const sheet = await this.getSheet(sheetName);
+    if (!sheet) return undefined;
+
+    const rows = await sheet.getRows();
+    const targetRow = rows.find((r) => r.get('member_id') === memberId);
+    return targetRow ? this.toPaymentRecord(targetRow) : undefined;
+  }
+
+  private toPaymentRecord(row: GoogleSpreadsheetRow): PaymentRecord {
+    return this.readRow<PaymentRecord>(row, PAYMENT_RECORD_FIELDS);
+  }
+
+  /**
+   * Read all members from All_members sheet
+   */
+  public async getAllMembers(): Promise<MemberData[]> {
+    const sheet = await this.getMemberSheet();
     const rows = await sheet.getRows();
     return rows
-      .map(
-        (row) =>
-          ({
-            member_id: row.get('member_id') || '',
-            member_email: row.get('member_email') || '',
-            payment_link: row.get('payment_link') || '',
-            payment_link_sent: row.get('payment_link_sent') || '',
-            unique_payment_link: row.get('unique_payment_link') || '',
-            paid: row.get('paid') || '',
-            paid_date: row.get('paid_date') || '',
-          }) as PaymentRecord,
-      )
+      .map((row) => {
+        const member = this.readRow<MemberData>(row, MEMBER_FIELDS);
+        return {
+          ...member,
+          status: member.status || ('active' as MemberStatus),
+          dues_tier: member.dues_tier || config.dues.defaultTier,
+        };
+      })
       .filter((member) => member.member_id && member.member_email);
   }
 
+  private async getMemberSheet(): Promise<GoogleSpreadsheetWorksheet> {
+    const sheet = await this.getSheet(MEMBER_SHEET_TITLE);
+    if (!sheet) {
+      throw new Error(`${MEMBER_SHEET_TITLE} sheet not found`);
+    }
+    return sheet;
+  }
+
   /**
-   * Read all members from All_members sheet
+   * Append a member to All_members, adding the registry columns a hand-kept sheet lacks
+   */
+  async addMember(member: MemberData): Promise<void> {
+    const sheet = await this.getMemberSheet();
+    await sheet.loadHeaderRow();
+    await this.ensureColumns(sheet, MEMBER_FIELDS);
+    await sheet.addRow({ ...member });
+  }
+
+  async updateMember(
+    memberId: string,
+    data: Partial<MemberData>,
+    onRead?: (current: MemberData) => void,
+  ): Promise<void> {
+    console.log(`[updateMember] memberId:${memberId}`);
+
+    const sheet = await this.getMemberSheet();
+    const outcome = await this.updateRowCells(sheet, 'member_id', memberId, MEMBER_FIELDS, data, (current) => {
+      onRead?.(current);
+      return true;
+    });
+    if (outcome === 'not_found') {
+      throw new Error(`member:${memberId} not found`);
+    }
+  }
+
+  async removeMember(memberId: string, onRead?: (current: MemberData) => void): Promise<void> {
+    console.log(`[removeMember] memberId:${memberId}`);
+
+    const sheet = await this.getMemberSheet();
+    const rows = await sheet.getRows();
+    const targetRow = rows.find((r) => r.get('member_id') === memberId);
+    if (!targetRow) {
+      throw new Error(`member:${memberId} not found`);
+    }
+    onRead?.(this.readRow<MemberData>(targetRow, MEMBER_FIELDS));
+    await targetRow.delete();
+  }
+
+  /**
+   * Read dues tiers (full_time, part_time, retired, student...) from Dues_tiers sheet
    */
-  private async getAllMembers(): Promise<MemberData[]> {
-    const sheet = this.doc.sheetsByTitle['All_members'];
+  public async getDuesTiers(): Promise<Map<string, DuesTierData>> {
+    const tiers = new Map<string, DuesTierData>();
+    const sheet = await this.getSheet(DUES_TIER_SHEET_TITLE);
     if (!sheet) {
-      throw new Error('All_members sheet not found');
+      console.warn('⚠️  Dues_tiers sheet not found, every member will be charged the default amount');
+      return tiers;
     }
 
+    const rows = await sheet.getRows();
+    for (const row of rows) {
+      const tier = row.get('dues_tier');
+      const amount = Number(row.get('amount'));
+      if (!tier || !Number.isInteger(amount) || amount <= 0) {
+        console.warn(`⚠️  Skip invalid dues tier row ${row.rowNumber}: ${tier} ${row.get('amount')}`);
+        continue;
+      }
+      tiers.set(tier, { amount, item_name: row.get('item_name') || config.ecpay.itemName });
+    }
+    return tiers;
+  }
+
+  /**
+   * Email templates edited by the board, empty when the sheet doesn't exist
+   */
+  public async getEmailTemplates(): Promise<EmailTemplateRecord[]> {
+    const sheet = await this.getSheet(EMAIL_TEMPLATE_SHEET_TITLE);
+    if (!sheet) return [];
+
     const rows = await sheet.getRows();
     return rows
-      .map((row) => ({
-        member_id: row.get('member_id') || '',
-        member_email: row.get('member_email') || '',
-      }))
-      .filter((member) => member.member_id && member.member_email);
+      .map((row) => this.readRow<EmailTemplateRecord>(row, EMAIL_TEMPLATE_FIELDS))
+      .filter((template) => template.name);
   }
 
   /**
    * Get or create monthly sheet (e.g., "202508")
    */
   private async getOrCreateMonthlySheet(yyyymm: string): Promise<GoogleSpreadsheetWorksheet> {
-    let sheet = this.doc.sheetsByTitle[yyyymm];
+    let sheet = await this.getSheet(yyyymm);
 
     if (!sheet) {
-      // Create new sheet with headers
-      sheet = await this.doc.addSheet({
-        title: yyyymm,
-        headerValues: [
-          'member_id',
-          'member_email',
-          'payment_link',
-          'payment_link_sent',
-          'unique_payment_link',
-          'paid',
-          'paid_date',
-        ],
-      });
-      console.log(`Created new sheet: ${yyyymm}`);
+      sheet = await this.addSheet(yyyymm, PAYMENT_RECORD_FIELDS);
     }
 
     return sheet;
   }
 
   /**
-   * Add payment record to monthly sheet
+   * Create a sheet with its header row. When another instance created it since the metadata was loaded,
+   * the metadata is reloaded and that sheet is used.
    */
-  private async addPaymentRecord(sheet: GoogleSpreadsheetWorksheet, record: PaymentRecord): Promise<void> {
-    await sheet.addRow({
-      member_id: record.member_id,
-      member_email: record.member_email,
-      payment_link: record.payment_link!,
-      payment_link_sent: record.payment_link_sent!,
-      unique_payment_link: record.unique_payment_link!,
-      paid: record.paid!,
-      paid_date: record.paid_date!,
+  private async addSheet(title: string, headerValues: string[]): Promise<GoogleSpreadsheetWorksheet> {
+    try {
+      const sheet = await this.doc.addSheet({ title, headerValues });
+      console.log(`Created new sheet: ${title}`);
+      return sheet;
+    } catch (error) {
+      if (!(error instanceof Error && /already exists/i.test(error.message))) throw error;
+
+      await this.initialize(true);
+      const sheet = await this.getSheet(title);
+      if (!sheet) throw error;
+      console.warn(`⚠️  sheet:${title} was created concurrently, using it`);
+      return sheet;
+    }
+  }
+
+  /**
+   * Append columns missing from sheets created before the column was introduced.
+   * Must be called after the header row is loaded (e.g. after getRows).
+   */
+  private async ensureColumns(sheet: GoogleSpreadsheetWorksheet, headers: string[]): Promise<void> {
+    const missing = headers.filter((h) => !sheet.headerValues.includes(h));
+    if (missing.length === 0) return;
+
+    const headerValues = [...sheet.headerValues, ...missing];
+    if (headerValues.length > sheet.columnCount) {
+      await sheet.resize({ rowCount: sheet.rowCount, columnCount: headerValues.length });
+    }
+    await sheet.setHeaderRow(headerValues);
+    console.log(`Added columns [${missing.join(', ')}] to sheet: ${sheet.title}`);
+  }
+
+  /**
+   * Add payment records to monthly sheet in one request, creating the sheet when needed
+   */
+  async addPaymentRecords(sheetName: string, records: PaymentRecord[]): Promise<void> {
+    const sheet = await this.getOrCreateMonthlySheet(sheetName);
+    await sheet.loadHeaderRow();
+    await this.ensureColumns(sheet, PAYMENT_RECORD_FIELDS);
+    await sheet.addRows(records.map((record) => ({ ...record }) as Record<string, string>));
+  }
+
+  /**
+   * Update member's payment record, creating the monthly sheet and the member row if they don't exist yet
+   * (periodic charges can arrive before the month's payment links are generated). Two upserts racing to append
+   * the same member both do: the member's rows are read back after appending and only the first is kept,
+   * the data of a deleted row is written into it.
+   */
+  async upsertPaymentData(
+    sheetName: string,
+    memberId: string,
+    memberEmail: string,
+    data: Partial<PaymentRecord>,
+    onRead?: (current: PaymentRecord | undefined) => void,
+  ): Promise<void> {
+    console.log(`[upsertPaymentData] sheetName:${sheetName} memberId:${memberId}`);
+
+    const sheet = await this.getOrCreateMonthlySheet(sheetName);
+    const rows = await sheet.getRows();
+    await this.ensureColumns(sheet, PAYMENT_RECORD_FIELDS);
+
+    if (!rows.some((r) => r.get('member_id') === memberId)) {
+      onRead?.(undefined);
+      const added = await sheet.addRow({ ...data, member_id: memberId, member_email: memberEmail } as Record<
+        string,
+        string
+      >);
+      if (await this.keepFirstMemberRow(sheet, memberId, added.rowNumber)) return;
+    }
+
+    await this.updatePaymentData(sheetName, memberId, data, (current) => {
+      onRead?.(current);
+      return true;
     });
   }
 
   /**
-   * Update existing payment record (optional - for future use)
+   * Delete the row just appended at rowNumber when the member has an earlier one, true when it's kept
    */
-  async updatePaymentStatus(yyyymm: string, memberId: string, isPaid: boolean): Promise<void> {
-    const sheet = this.doc.sheetsByTitle[yyyymm];
+  private async keepFirstMemberRow(
+    sheet: GoogleSpreadsheetWorksheet,
+    memberId: string,
+    rowNumber: number,
+  ): Promise<boolean> {
+    const memberRows = (await sheet.getRows()).filter((r) => r.get('member_id') === memberId);
+    const ownRow = memberRows.find((r) => r.rowNumber === rowNumber);
+    if (!ownRow || memberRows[0] === ownRow) return true;
+
+    console.warn(
+      `⚠️  member:${memberId} was appended to sheet:${sheet.title} concurrently, keep row ${memberRows[0].rowNumber}`,
+    );
+    await ownRow.delete();
+    return false;
+  }
+
+  /**
+   * Read the trades issued for a member's month, oldest first
+   */
+  public async getIssuedTrades(memberId: string, yyyymm: string): Promise<TradeNoRecord[]> {
+    const sheet = await this.getSheet(TRADE_NO_SHEET_TITLE);
+    if (!sheet) return [];
+
+    const rows = await sheet.getRows();
+    return rows
+      .filter((row) => row.get('member_id') === memberId && row.get('yyyymm') === yyyymm)
+      .map((row) => this.readRow<TradeNoRecord>(row, TRADE_NO_FIELDS));
+  }
+
+  async addIssuedTradeNo(record: TradeNoRecord): Promise<void> {
+    let sheet = await this.getSheet(TRADE_NO_SHEET_TITLE);
     if (!sheet) {
-      throw new Error(`Sheet ${yyyymm} not found`);
+      sheet = await this.addSheet(TRADE_NO_SHEET_TITLE, TRADE_NO_FIELDS);
+    } else {
+      await sheet.loadHeaderRow();
+      await this.ensureColumns(sheet, TRADE_NO_FIELDS);
+    }
+
+    await sheet.addRow({ ...record });
+  }
+
+  /**
+   * Update an issued trade, a no-op for trade numbers that were never registered
+   */
+  async updateIssuedTrade(
+    merchantTradeNo: string,
+    data: Partial<TradeNoRecord>,
+    onRead?: (current: TradeNoRecord) => void,
+  ): Promise<void> {
+    console.log(`[updateIssuedTrade] merchantTradeNo:${merchantTradeNo}`);
+
+    const sheet = await this.getSheet(TRADE_NO_SHEET_TITLE);
+    if (!sheet) return;
+
+    const outcome = await this.updateRowCells(
+      sheet,
+      'merchant_trade_no',
+      merchantTradeNo,
+      TRADE_NO_FIELDS,
+      data,
+      (current) => {
+        onRead?.(current);
+        return true;
+      },
+    );
+    if (outcome === 'not_found') {
+      console.warn(`⚠️  MerchantTradeNo ${merchantTradeNo} is not in ${TRADE_NO_SHEET_TITLE}`);
     }
+  }
+
+  /**
+   * Read all credit card periodic subscriptions
+   */
+  public async getSubscriptions(): Promise<SubscriptionRecord[]> {
+    const sheet = await this.getSheet(SUBSCRIPTION_SHEET_TITLE);
+    if (!sheet) return [];
 
     const rows = await sheet.getRows();
-    const targetRow = rows.find((row) => row.get('member_id') === memberId);
+    return rows.map((row) => this.readRow<SubscriptionRecord>(row, SUBSCRIPTION_FIELDS));
+  }
 
-    if (targetRow) {
-      targetRow.set('paid', isPaid ? 'YES' : 'NO');
-      if (isPaid) {
-        targetRow.set('paid_date', new Date().toISOString().split('T')[0]);
-      }
-      await targetRow.save();
-      console.log(`Updated payment status for ${memberId}: ${isPaid ? 'PAID' : 'UNPAID'}`);
+  async addSubscription(record: SubscriptionRecord): Promise<void> {
+    let sheet = await this.getSheet(SUBSCRIPTION_SHEET_TITLE);
+    if (!sheet) {
+      sheet = await this.addSheet(SUBSCRIPTION_SHEET_TITLE, SUBSCRIPTION_FIELDS);
+    }
+
+    await sheet.addRow({ ...record });
+  }
+
+  async updateSubscription(
+    merchantTradeNo: string,
+    data: Partial<SubscriptionRecord>,
+    onRead?: (current: SubscriptionRecord) => void,
+  ): Promise<void> {
+    console.log(`[updateSubscription] merchantTradeNo:${merchantTradeNo}`);
+
+    const sheet = await this.getSheet(SUBSCRIPTION_SHEET_TITLE);
+    if (!sheet) {
+      throw new Error(`sheet:${SUBSCRIPTION_SHEET_TITLE} not found`);
+    }
+
+    const outcome = await this.updateRowCells(
+      sheet,
+      'merchant_trade_no',
+      merchantTradeNo,
+      SUBSCRIPTION_FIELDS,
+      data,
+      (current) => {
+        onRead?.(current);
+        return true;
+      },
+    );
+    if (outcome === 'not_found') {
+      throw new Error(`subscription:${merchantTradeNo} not found`);
+    }
+  }
+
+  /**
+   * Read all ledger entries
+   */
+  public async getLedgerRecords(): Promise<LedgerRecord[]> {
+    const sheet = await this.getSheet(LEDGER_SHEET_TITLE);
+    if (!sheet) return [];
+
+    const rows = await sheet.getRows();
+    return rows.map((row) => this.readRow<LedgerRecord>(row, LEDGER_FIELDS));
+  }
+
+  async addLedgerRecord(record: LedgerRecord): Promise<void> {
+    let sheet = await this.getSheet(LEDGER_SHEET_TITLE);
+    if (!sheet) {
+      sheet = await this.addSheet(LEDGER_SHEET_TITLE, LEDGER_FIELDS);
+    } else {
+      await sheet.loadHeaderRow();
+      await this.ensureColumns(sheet, LEDGER_FIELDS);
+    }
+
+    await sheet.addRow({ ...record });
+  }
+
+  /**
+   * Append audit entries in one request
+   */
+  async addAuditRecords(records: AuditRecord[]): Promise<void> {
+    let sheet = await this.getSheet(AUDIT_SHEET_TITLE);
+    if (!sheet) {
+      sheet = await this.addSheet(AUDIT_SHEET_TITLE, AUDIT_FIELDS);
     }
+
+    await sheet.addRows(records.map((record) => ({ ...record })));
+  }
+
+  public async getAuditRecords(memberId: string): Promise<AuditRecord[]> {
+    const sheet = await this.getSheet(AUDIT_SHEET_TITLE);
+    if (!sheet) return [];
+
+    const rows = await sheet.getRows();
+    return rows
+      .filter((row) => row.get('member_id') === memberId)
+      .map((row) => this.readRow<AuditRecord>(row, AUDIT_FIELDS));
+  }
+
+  /**
+   * Update existing payment record (optional - for future use)
+   */
+  async updatePaymentStatus(yyyymm: string, memberId: string, isPaid: boolean): Promise<void> {
+    await this.updatePaymentData(yyyymm, memberId, {
+      paid: isPaid ? 'YES' : 'NO',
+      paid_date: isPaid ? new Date().toISOString().split('T')[0] : undefined,
+    });
+    console.log(`Updated payment status for ${memberId}: ${isPaid ? 'PAID' : 'UNPAID'}`);
   }
 }
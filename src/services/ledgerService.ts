@@ -0,0 +1,207 @@
+import { LedgerRecord, PaymentRecord, PaymentRepository } from '../types/repositoryTypes';
+import { ECPayService } from './ecpayService';
+import { LedgerSummary, LedgerTotals } from '../types';
+
+const LEDGER_EXPORT_COLUMNS: (keyof LedgerRecord)[] = [
+  'payment_date',
+  'yyyymm',
+  'member_id',
+  'merchant_trade_no',
+  'trade_no',
+  'payment_type',
+  'gross_amount',
+  'fee',
+  'net_amount',
+  'entry_type',
+];
+// Spreadsheet apps run a cell starting with one of these as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+const NUMBER = /^-?\d+(\.\d+)?$/;
+
+export class LedgerService {
+  private paymentRepository: PaymentRepository;
+  private ecPayService: ECPayService;
+
+  constructor(paymentRepository: PaymentRepository, ecPayService: ECPayService) {
+    this.paymentRepository = paymentRepository;
+    this.ecPayService = ecPayService;
+  }
+
+  /**
+   * Record a confirmed payment with the fees ECPay reports for its trade, true once it is in the ledger.
+   * The payment is already recorded, so failures are logged instead of thrown; reconciliation backfills the entry.
+   * Skipped when the trade already has an entry for the month, so replayed callbacks don't count twice.
+   */
+  async recordPayment(
+    yyyymm: string,
+    memberId: string,
+    merchantTradeNo: string,
+    payment: { paymentDate: string; amount: number },
+  ): Promise<boolean> {
+    try {
+      const records = await this.paymentRepository.getLedgerRecords();
+      if (this.hasPaymentEntry(records, merchantTradeNo, yyyymm)) {
+        console.log(`Ledger entry of ${merchantTradeNo} ${yyyymm} already recorded, skip`);
+        return true;
+      }
+
+      // Periodic charges are all the same amount, so the trade's (first charge) fee applies to each
+      const info = await this.ecPayService.queryECPay(merchantTradeNo);
+      // HandlingCharge is ECPay's total fee, PaymentTypeChargeFee the payment channel part of it
+      const fee = Number(info.HandlingCharge) || Number(info.PaymentTypeChargeFee) || 0;
+
+      await this.paymentRepository.addLedgerRecord({
+        merchant_trade_no: merchantTradeNo,
+        trade_no: info.TradeNo,
+        member_id: memberId,
+        yyyymm,
+        payment_date: payment.paymentDate,
+        payment_type: info.PaymentType,
+        gross_amount: payment.amount.toString(),
+        fee: fee.toString(),
+        net_amount: (payment.amount - fee).toString(),
+        recorded_at: new Date().toISOString(),
+        entry_type: 'payment',
+      });
+      console.log(`📒 Ledger: ${merchantTradeNo} NT$ ${payment.amount}, fee NT$ ${fee}`);
+      return true;
+    } catch (error) {
+      console.error(`❌ Error recording ledger entry of ${merchantTradeNo} ${yyyymm}, left to reconciliation:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Record the payments of paid rows that have no ledger entry, e.g. because the fee lookup or the write failed
+   * when they were paid. Rows without a trade or paid amount (other months of a prepayment, payments marked by hand)
+   * have nothing to record. Returns the trades recorded.
+   */
+  async backfillPayments(yyyymm: string, paymentDatas: PaymentRecord[]): Promise<string[]> {
+    const records = await this.paymentRepository.getLedgerRecords();
+    const missing = paymentDatas.filter(
+      (d) =>
+        d.paid === 'Y' &&
+        d.unique_payment_link &&
+        d.paid_amount &&
+        !this.hasPaymentEntry(records, d.unique_payment_link, yyyymm),
+    );
+
+    const recorded: string[] = [];
+    for (const data of missing) {
+      console.warn(`⚠️  Paid trade ${data.unique_payment_link} ${yyyymm} has no ledger entry, record it now`);
+      const ok = await this.recordPayment(yyyymm, data.member_id, data.unique_payment_link!, {
+        paymentDate: data.paid_date || '',
+        amount: Number(data.paid_amount),
+      });
+      if (ok) recorded.push(data.unique_payment_link!);
+    }
+    return recorded;
+  }
+
+  /**
+   * Record money returned to a member as a negative entry, dated now like ECPay dates (yyyy/MM/dd HH:mm:ss).
+   * ECPay keeps the fee of a refund, a cancelled authorization was never charged one, so its fee is reversed too.
+   * The refund is already done, so failures are logged instead of thrown.
+   */
+  async recordRefund(
+    yyyymm: string,
+    memberId: string,
+    merchantTradeNo: string,
+    refund: { type: 'refund' | 'cancel'; amount: number },
+  ): Promise<void> {
+    try {
+      const records = await this.paymentRepository.getLedgerRecords();
+      const entries = records.filter((r) => r.merchant_trade_no === merchantTradeNo && r.yyyymm === yyyymm);
+      if (entries.some((r) => r.entry_type === refund.type)) {
+        console.log(`Ledger ${refund.type} of ${merchantTradeNo} ${yyyymm} already recorded, skip`);
+        return;
+      }
+
+      const payment = entries.find((r) => this.isPayment(r));
+      const fee = refund.type === 'cancel' ? -(Number(payment?.fee) || 0) : 0;
+      await this.paymentRepository.addLedgerRecord({
+        merchant_trade_no: merchantTradeNo,
+        trade_no: payment?.trade_no || '',
+        member_id: memberId,
+        yyyymm,
+        payment_date: this.formatDate(new Date()),
+        payment_type: payment?.payment_type || '',
+        gross_amount: (-refund.amount).toString(),
+        fee: fee.toString(),
+        net_amount: (-refund.amount - fee).toString(),
+        recorded_at: new Date().toISOString(),
+        entry_type: refund.type,
+      });
+      console.log(`📒 Ledger: ${refund.type} ${merchantTradeNo} NT$ -${refund.amount}, fee NT$ ${fee}`);
+    } catch (error) {
+      console.error(`❌ Error recording ledger ${refund.type} of ${merchantTradeNo} ${yyyymm}:`, error);
+    }
+  }
+
+  private formatDate(date: Date): string {
+    const pad = (n: number) => n.toString().padStart(2, '0');
+    return `${date.getFullYear()}/${pad(date.getMonth() + 1)}/${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+  }
+
+  private isPayment(record: LedgerRecord): boolean {
+    return !record.entry_type || record.entry_type === 'payment';
+  }
+
+  private hasPaymentEntry(records: LedgerRecord[], merchantTradeNo: string, yyyymm: string): boolean {
+    return records.some((r) => this.isPayment(r) && r.merchant_trade_no === merchantTradeNo && r.yyyymm === yyyymm);
+  }
+
+  /**
+   * Ledger entries of payments received (and refunds made) in yyyymm (payment_date is yyyy/MM/dd HH:mm:ss)
+   */
+  async getMonthRecords(yyyymm: string): Promise<LedgerRecord[]> {
+    const records = await this.paymentRepository.getLedgerRecords();
+    return records.filter((r) => r.payment_date.slice(0, 7).replace('/', '') === yyyymm);
+  }
+
+  /**
+   * Gross, fees and net of payments received in yyyymm less its refunds, in total and per payment type
+   */
+  async summarizeMonth(yyyymm: string): Promise<LedgerSummary> {
+    const records = await this.getMonthRecords(yyyymm);
+    const emptyTotals = (): LedgerTotals => ({ count: 0, gross: 0, fees: 0, net: 0, refunds: 0 });
+
+    const summary: LedgerSummary = {
+      yyyymm,
+      total: emptyTotals(),
+      byPaymentType: {},
+    };
+    for (const record of records) {
+      const paymentType = record.payment_type || 'Unknown';
+      summary.byPaymentType[paymentType] ??= emptyTotals();
+
+      for (const totals of [summary.total, summary.byPaymentType[paymentType]]) {
+        if (this.isPayment(record)) totals.count++;
+        else totals.refunds -= Number(record.gross_amount) || 0;
+        totals.gross += Number(record.gross_amount) || 0;
+        totals.fees += Number(record.fee) || 0;
+        totals.net += Number(record.net_amount) || 0;
+      }
+    }
+
+    return summary;
+  }
+
+  /**
+   * CSV of the payments received and refunds made in yyyymm
+   */
+  async exportMonth(yyyymm: string): Promise<string> {
+    const records = await this.getMonthRecords(yyyymm);
+    const escape = (cell: string) => {
+      // Text that would run as a formula is kept as text, negative amounts stay numbers
+      const value = FORMULA_PREFIX.test(cell) && !NUMBER.test(cell) ? `'${cell}` : cell;
+      return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+    };
+
+    const lines = [
+      LEDGER_EXPORT_COLUMNS.join(','),
+      ...records.map((record) => LEDGER_EXPORT_COLUMNS.map((column) => escape(record[column])).join(',')),
+    ];
+    return lines.join('\r\n') + '\r\n';
+  }
+}
@@ -0,0 +1,171 @@
+import { MEMBER_STATUSES, MemberData, MemberRepository, MemberStatus } from '../types/repositoryTypes';
+import { MemberChangeResult } from '../types';
+import { TRADE_NO_MEMBER_ID_PATTERN } from './ecpayService';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const PHONE_PATTERN = /^\+?[0-9][0-9 -]{6,19}$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Member registry (All_members): validates fields and keeps member_id / member_email unique
+ */
+export class MemberService {
+  private memberRepository: MemberRepository;
+
+  constructor(memberRepository: MemberRepository) {
+    this.memberRepository = memberRepository;
+  }
+
+  async listMembers(status?: MemberStatus): Promise<MemberData[]> {
+    const members = await this.memberRepository.getAllMembers();
+    return status ? members.filter((member) => member.status === status) : members;
+  }
+
+  async createMember(input: Partial<MemberData>): Promise<MemberChangeResult> {
+    const member: MemberData = {
+      member_id: input.member_id?.trim() || '',
+      member_email: input.member_email?.trim() || '',
+      member_name: input.member_name?.trim() || '',
+      member_phone: input.member_phone?.trim() || '',
+      join_date: input.join_date?.trim() || new Date().toISOString().split('T')[0],
+      status: input.status || 'active',
+      dues_tier: input.dues_tier?.trim() || '',
+      dues_amount: input.dues_amount?.toString().trim() || '',
+      reminder_opt_out: input.reminder_opt_out?.trim() || '',
+    };
+
+    if (!TRADE_NO_MEMBER_ID_PATTERN.test(member.member_id)) {
+      return { success: false, reason: 'invalid', message: 'member_id must be 1-10 alphanumeric characters' };
+    }
+    if (!member.member_name) {
+      return { success: false, reason: 'invalid', message: 'member_name is required' };
+    }
+    const invalid = this.validate(member) || (await this.validateDuesTier(member.dues_tier));
+    if (invalid) return invalid;
+
+    const members = await this.memberRepository.getAllMembers();
+    const duplicate = this.findDuplicate(members, member);
+    if (duplicate) return duplicate;
+
+    await this.memberRepository.addMember(member);
+    console.log(`✅ Member ${member.member_id} created`);
+    return { success: true, member };
+  }
+
+  /**
+   * Update the given fields, member_id itself can't be changed
+   */
+  async updateMember(memberId: string, input: Partial<MemberData>): Promise<MemberChangeResult> {
+    const members = await this.memberRepository.getAllMembers();
+    const existing = members.find((m) => m.member_id === memberId);
+    if (!existing) {
+      return { success: false, reason: 'not_found', message: `member:${memberId} not found` };
+    }
+
+    const changes: Partial<MemberData> = {};
+    for (const field of [
+      'member_email',
+      'member_name',
+      'member_phone',
+      'join_date',
+      'dues_tier',
+      'reminder_opt_out',
+    ] as const) {
+      if (input[field] != undefined) changes[field] = input[field]!.trim();
+    }
+    if (input.status != undefined) changes.status = input.status;
+    if (input.dues_amount != undefined) changes.dues_amount = input.dues_amount.toString().trim();
+
+    const member = { ...existing, ...changes };
+    if (!member.member_name && changes.member_name != undefined) {
+      return { success: false, reason: 'invalid', message: 'member_name is required' };
+    }
+    // A blank tier reads as the config default, which needn't be a defined tier
+    const invalid = this.validate(member) || (await this.validateDuesTier(changes.dues_tier || ''));
+    if (invalid) return invalid;
+
+    const duplicate = this.findDuplicate(
+      members.filter((m) => m.member_id !== memberId),
+      member,
+    );
+    if (duplicate) return duplicate;
+
+    await this.memberRepository.updateMember(memberId, changes);
+    console.log(`✅ Member ${memberId} updated: ${Object.keys(changes).join(', ')}`);
+    return { success: true, member };
+  }
+
+  /**
+   * Suspended members keep their records but get no payment links
+   */
+  async suspendMember(memberId: string): Promise<MemberChangeResult> {
+    return this.updateMember(memberId, { status: 'suspended' });
+  }
+
+  async removeMember(memberId: string): Promise<MemberChangeResult> {
+    const members = await this.memberRepository.getAllMembers();
+    const member = members.find((m) => m.member_id === memberId);
+    if (!member) {
+      return { success: false, reason: 'not_found', message: `member:${memberId} not found` };
+    }
+
+    await this.memberRepository.removeMember(memberId);
+    console.log(`✅ Member ${memberId} removed`);
+    return { success: true, member };
+  }
+
+  private validate(member: MemberData): MemberChangeResult | undefined {
+    const invalid = (message: string): MemberChangeResult => ({ success: false, reason: 'invalid', message });
+
+    if (!EMAIL_PATTERN.test(member.member_email)) {
+      return invalid('member_email is not a valid email address');
+    }
+    if (member.member_phone && !PHONE_PATTERN.test(member.member_phone)) {
+      return invalid('member_phone must be 7-20 digits, spaces or dashes');
+    }
+    if (member.join_date && (!DATE_PATTERN.test(member.join_date) || isNaN(new Date(member.join_date).getTime()))) {
+      return invalid('join_date must be a yyyy-MM-dd date');
+    }
+    if (!MEMBER_STATUSES.includes(member.status)) {
+      return invalid(`status must be one of ${MEMBER_STATUSES.join(', ')}`);
+    }
+    if (member.dues_amount && !(Number.isInteger(Number(member.dues_amount)) && Number(member.dues_amount) > 0)) {
+      return invalid('dues_amount must be a positive integer');
+    }
+    if (!['', 'Y', 'N'].includes(member.reminder_opt_out)) {
+      return invalid('reminder_opt_out must be Y, N or blank');
+    }
+    return undefined;
+  }
+
+  /**
+   * Without any tier defined every member pays the default amount, so any tier name goes
+   */
+  private async validateDuesTier(duesTier: string): Promise<MemberChangeResult | undefined> {
+    const tiers = await this.memberRepository.getDuesTiers();
+    if (duesTier && tiers.size > 0 && !tiers.has(duesTier)) {
+      return {
+        success: false,
+        reason: 'invalid',
+        message: `dues_tier must be one of ${[...tiers.keys()].join(', ')}`,
+      };
+    }
+    return undefined;
+  }
+
+  private findDuplicate(others: MemberData[], member: MemberData): MemberChangeResult | undefined {
+    if (others.some((m) => m.member_id === member.member_id)) {
+      return { success: false, reason: 'duplicate', message: `member_id ${member.member_id} already exists` };
+    }
+    const email = member.member_email.toLowerCase();
+    const sameEmail = others.find((m) => m.member_email.toLowerCase() === email);
+    if (sameEmail) {
+      return {
+        success: false,
+        reason: 'duplicate',
+        message: `member_email ${member.member_email} is used by member ${sameEmail.member_id}`,
+      };
+    }
+    return undefined;
+  }
+}
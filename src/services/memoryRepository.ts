@@ -0,0 +1,288 @@
+import config from '../configs';
+import {
+  AUDIT_FIELDS,
+  AuditRecord,
+  DuesTierData,
+  EMAIL_TEMPLATE_FIELDS,
+  EmailTemplateRecord,
+  LEDGER_FIELDS,
+  LedgerRecord,
+  MEMBER_FIELDS,
+  MemberData,
+  PAYMENT_RECORD_FIELDS,
+  PaymentBatchUpdateResult,
+  PaymentRecord,
+  Repository,
+  SchemaMigrationResult,
+  StorageReadiness,
+  SUBSCRIPTION_FIELDS,
+  SubscriptionRecord,
+  TRADE_NO_FIELDS,
+  TradeNoRecord,
+} from '../types/repositoryTypes';
+
+/**
+ * Complete record with every field of the list, missing ones as ''
+ */
+const toRecord = <T>(fields: (keyof T)[], data: Partial<T>): T =>
+  Object.fromEntries(fields.map((field) => [field, data[field] ?? ''])) as T;
+
+/**
+ * Copy every defined field of data onto the record, undefined fields are left untouched
+ */
+const setDefined = <T>(fields: (keyof T)[], record: T, data: Partial<T>): void => {
+  for (const field of fields) {
+    const value = data[field];
+    if (value != undefined) record[field] = value as T[keyof T];
+  }
+};
+
+/**
+ * Process-local storage for tests and offline development, nothing survives a restart
+ */
+export class MemoryRepository implements Repository {
+  private members: MemberData[];
+  private duesTiers: Map<string, DuesTierData>;
+  private months: Map<string, PaymentRecord[]>;
+  private trades: TradeNoRecord[];
+  private subscriptions: SubscriptionRecord[];
+  private ledger: LedgerRecord[];
+  private auditLog: AuditRecord[];
+  private emailTemplates: EmailTemplateRecord[];
+
+  constructor(
+    seed: {
+      members?: MemberData[];
+      duesTiers?: Map<string, DuesTierData>;
+      emailTemplates?: EmailTemplateRecord[];
+    } = {},
+  ) {
+    this.members = seed.members || [];
+    this.duesTiers = seed.duesTiers || new Map();
+    this.emailTemplates = (seed.emailTemplates || []).map((template) => toRecord(EMAIL_TEMPLATE_FIELDS, template));
+    this.months = new Map();
+    this.trades = [];
+    this.subscriptions = [];
+    this.ledger = [];
+    this.auditLog = [];
+    console.log('✅ In-memory repository initialized');
+  }
+
+  async getAllMembers(): Promise<MemberData[]> {
+    return this.members
+      .map((member) => ({
+        ...toRecord(MEMBER_FIELDS, member),
+        status: member.status || 'active',
+        dues_tier: member.dues_tier || config.dues.defaultTier,
+      }))
+      .filter((member) => member.member_id && member.member_email);
+  }
+
+  async addMember(member: MemberData): Promise<void> {
+    this.members.push(toRecord(MEMBER_FIELDS, member));
+  }
+
+  async updateMember(
+    memberId: string,
+    data: Partial<MemberData>,
+    onRead?: (current: MemberData) => void,
+  ): Promise<void> {
+    const member = this.members.find((m) => m.member_id === memberId);
+    if (!member) {
+      throw new Error(`member:${memberId} not found`);
+    }
+    onRead?.({ ...member });
+    setDefined(MEMBER_FIELDS, member, data);
+  }
+
+  async removeMember(memberId: string, onRead?: (current: MemberData) => void): Promise<void> {
+    const index = this.members.findIndex((m) => m.member_id === memberId);
+    if (index === -1) {
+      throw new Error(`member:${memberId} not found`);
+    }
+    onRead?.({ ...this.members[index] });
+    this.members.splice(index, 1);
+  }
+
+  async getDuesTiers(): Promise<Map<string, DuesTierData>> {
+    return new Map(this.duesTiers);
+  }
+
+  async getEmailTemplates(): Promise<EmailTemplateRecord[]> {
+    return this.emailTemplates.map((template) => ({ ...template }));
+  }
+
+  async initialize(): Promise<void> {}
+
+  async getReadiness(): Promise<StorageReadiness> {
+    return { backend: 'memory', ready: true, message: 'kept in this process only' };
+  }
+
+  /**
+   * Records are always created with every field, nothing to migrate
+   */
+  async migrateSchema(): Promise<SchemaMigrationResult[]> {
+    return [];
+  }
+
+  async hasMonth(yyyymm: string): Promise<boolean> {
+    return this.months.has(yyyymm);
+  }
+
+  async getMonths(): Promise<string[]> {
+    return [...this.months.keys()].sort();
+  }
+
+  async getAllPaymentDatas(yyyymm: string): Promise<PaymentRecord[]> {
+    const records = this.months.get(yyyymm);
+    if (!records) {
+      throw new Error(`month:${yyyymm} not found`);
+    }
+
+    return records.filter((record) => record.member_id && record.member_email).map((record) => ({ ...record }));
+  }
+
+  async getPaymentData(yyyymm: string, memberId: string): Promise<PaymentRecord | undefined> {
+    const record = this.months.get(yyyymm)?.find((r) => r.member_id === memberId);
+    return record ? { ...record } : undefined;
+  }
+
+  async addPaymentRecords(yyyymm: string, records: PaymentRecord[]): Promise<void> {
+    if (!this.months.has(yyyymm)) {
+      this.months.set(yyyymm, []);
+    }
+    this.months.get(yyyymm)!.push(...records.map((record) => toRecord(PAYMENT_RECORD_FIELDS, record)));
+  }
+
+  async updatePaymentData(
+    yyyymm: string,
+    memberId: string,
+    data: Partial<PaymentRecord>,
+    precondition?: (current: PaymentRecord) => boolean,
+  ): Promise<boolean> {
+    const records = this.months.get(yyyymm);
+    if (!records) {
+      throw new Error(`month:${yyyymm} not found`);
+    }
+
+    const record = records.find((r) => r.member_id === memberId);
+    if (!record) {
+      throw new Error(`member:${memberId} not found in month:${yyyymm}`);
+    }
+    if (precondition && !precondition({ ...record })) return false;
+
+    setDefined(PAYMENT_RECORD_FIELDS, record, data);
+    return true;
+  }
+
+  async updatePaymentDataBatch(
+    yyyymm: string,
+    memberIds: string[],
+    datas: Partial<PaymentRecord>[],
+    onRead?: (current: PaymentRecord) => void,
+  ): Promise<PaymentBatchUpdateResult> {
+    if (memberIds.length != datas.length) throw new Error('idLength != dataLength');
+
+    const records = this.months.get(yyyymm);
+    if (!records) {
+      throw new Error(`month:${yyyymm} not found`);
+    }
+
+    const recordByMemberId = new Map<string, PaymentRecord>();
+    for (const record of records) {
+      if (!recordByMemberId.has(record.member_id)) recordByMemberId.set(record.member_id, record);
+    }
+
+    const result: PaymentBatchUpdateResult = { updated: [], notFound: [] };
+    memberIds.forEach((memberId, i) => {
+      const record = recordByMemberId.get(memberId);
+      if (!record) {
+        result.notFound.push(memberId);
+        return;
+      }
+      onRead?.({ ...record });
+      setDefined(PAYMENT_RECORD_FIELDS, record, datas[i]);
+      result.updated.push(memberId);
+    });
+    return result;
+  }
+
+  async upsertPaymentData(
+    yyyymm: string,
+    memberId: string,
+    memberEmail: string,
+    data: Partial<PaymentRecord>,
+    onRead?: (current: PaymentRecord | undefined) => void,
+  ): Promise<void> {
+    if (await this.getPaymentData(yyyymm, memberId)) {
+      await this.updatePaymentData(yyyymm, memberId, data, (current) => {
+        onRead?.(current);
+        return true;
+      });
+    } else {
+      onRead?.(undefined);
+      await this.addPaymentRecords(yyyymm, [
+        { ...data, member_id: memberId, member_email: memberEmail } as PaymentRecord,
+      ]);
+    }
+  }
+
+  async getIssuedTrades(memberId: string, yyyymm: string): Promise<TradeNoRecord[]> {
+    return this.trades.filter((t) => t.member_id === memberId && t.yyyymm === yyyymm).map((t) => ({ ...t }));
+  }
+
+  async addIssuedTradeNo(record: TradeNoRecord): Promise<void> {
+    this.trades.push(toRecord(TRADE_NO_FIELDS, record));
+  }
+
+  async updateIssuedTrade(
+    merchantTradeNo: string,
+    data: Partial<TradeNoRecord>,
+    onRead?: (current: TradeNoRecord) => void,
+  ): Promise<void> {
+    const trade = this.trades.find((t) => t.merchant_trade_no === merchantTradeNo);
+    if (!trade) {
+      console.warn(`⚠️  MerchantTradeNo ${merchantTradeNo} was never issued`);
+      return;
+    }
+    onRead?.({ ...trade });
+    setDefined(TRADE_NO_FIELDS, trade, data);
+  }
+
+  async getSubscriptions(): Promise<SubscriptionRecord[]> {
+    return this.subscriptions.map((sub) => ({ ...sub }));
+  }
+
+  async addSubscription(record: SubscriptionRecord): Promise<void> {
+    this.subscriptions.push(toRecord(SUBSCRIPTION_FIELDS, record));
+  }
+
+  async updateSubscription(
+    merchantTradeNo: string,
+    data: Partial<SubscriptionRecord>,
+    onRead?: (current: SubscriptionRecord) => void,
+  ): Promise<void> {
+    const subscription = this.subscriptions.find((sub) => sub.merchant_trade_no === merchantTradeNo);
+    if (!subscription) {
+      throw new Error(`subscription:${merchantTradeNo} not found`);
+    }
+    onRead?.({ ...subscription });
+    setDefined(SUBSCRIPTION_FIELDS, subscription, data);
+  }
+
+  async getLedgerRecords(): Promise<LedgerRecord[]> {
+    return this.ledger.map((record) => ({ ...record }));
+  }
+
+  async addLedgerRecord(record: LedgerRecord): Promise<void> {
+    this.ledger.push(toRecord(LEDGER_FIELDS, record));
+  }
+
+  async addAuditRecords(records: AuditRecord[]): Promise<void> {
+    this.auditLog.push(...records.map((record) => toRecord(AUDIT_FIELDS, record)));
+  }
+
+  async getAuditRecords(memberId: string): Promise<AuditRecord[]> {
+    return this.auditLog.filter((record) => record.member_id === memberId).map((record) => ({ ...record }));
+  }
+}
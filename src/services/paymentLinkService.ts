@@ -0,0 +1,131 @@
+import { PaymentLinkTokenService } from './paymentLinkTokenService';
+import config from '../configs';
+import { TRADE_NO_MEMBER_ID_PATTERN } from './ecpayService';
+import { PaymentLinkGenerationSummary } from '../types';
+import { DuesTierData, MemberData, MemberRepository, PaymentRecord, PaymentRepository } from '../types/repositoryTypes';
+
+export class PaymentLinkService {
+  private paymentRepository: PaymentRepository;
+  private memberRepository: MemberRepository;
+  private paymentLinkTokenService: PaymentLinkTokenService;
+
+  constructor(
+    paymentRepository: PaymentRepository,
+    memberRepository: MemberRepository,
+    paymentLinkTokenService: PaymentLinkTokenService,
+  ) {
+    this.paymentRepository = paymentRepository;
+    this.memberRepository = memberRepository;
+    this.paymentLinkTokenService = paymentLinkTokenService;
+  }
+
+  /**
+   * Generate signed payment links into a month's records. Safe to run again: members who already
+   * have a record are skipped and active members added since are appended. With flagLeftMembers, records
+   * of members no longer active (suspended or removed) are flagged member_left (they get no more emails).
+   */
+  async generatePaymentLinks(
+    yyyymm: string,
+    options: { flagLeftMembers?: boolean } = {},
+  ): Promise<PaymentLinkGenerationSummary> {
+    try {
+      // Suspended members are not billed, and count as left
+      const members = (await this.memberRepository.getAllMembers()).filter((member) => member.status === 'active');
+      console.log(`Found ${members.length} active members`);
+
+      const duesTiers = await this.memberRepository.getDuesTiers();
+      const existing = (await this.paymentRepository.hasMonth(yyyymm))
+        ? await this.paymentRepository.getAllPaymentDatas(yyyymm)
+        : [];
+      const existingByMemberId = new Map(existing.map((record) => [record.member_id, record]));
+
+      const summary: PaymentLinkGenerationSummary = {
+        yyyymm,
+        added: [],
+        skipped: [],
+        left: [],
+        rejoined: [],
+        invalid: [],
+      };
+      const newRecords: PaymentRecord[] = [];
+      for (const member of members) {
+        const record = existingByMemberId.get(member.member_id);
+        if (record) {
+          summary.skipped.push(member.member_id);
+          if (record.member_left === 'Y') summary.rejoined.push(member.member_id);
+          continue;
+        }
+
+        if (!TRADE_NO_MEMBER_ID_PATTERN.test(member.member_id)) {
+          console.warn(`⚠️  member_id:${member.member_id} doesn't fit in a MerchantTradeNo, no payment link`);
+          summary.invalid.push(member.member_id);
+          continue;
+        }
+
+        const dues = this.resolveDues(member, duesTiers);
+        const newRecord = {
+          member_id: member.member_id,
+          member_email: member.member_email,
+          payment_link: this.paymentLinkTokenService.sign(member.member_id, yyyymm, dues.amount),
+          payment_link_sent: 'N',
+          unique_payment_link: '', // Leave blank
+          paid: '', // Leave blank
+          paid_date: '', // Leave blank
+          paid_amount: '', // Leave blank
+          dues_tier: member.dues_tier,
+          amount_due: dues.amount.toString(),
+          item_name: dues.item_name,
+        } as PaymentRecord;
+        newRecords.push(newRecord);
+        // A member listed twice still gets one record
+        existingByMemberId.set(member.member_id, newRecord);
+        summary.added.push(member.member_id);
+        console.log(`Generated payment link for ${member.member_id} (NT$ ${dues.amount})`);
+      }
+
+      if (newRecords.length > 0) {
+        await this.paymentRepository.addPaymentRecords(yyyymm, newRecords);
+      }
+
+      const flagUpdates = new Map<string, Partial<PaymentRecord>>(
+        summary.rejoined.map((memberId) => [memberId, { member_left: '' }]),
+      );
+      if (options.flagLeftMembers) {
+        const memberIds = new Set(members.map((member) => member.member_id));
+        for (const record of existing) {
+          if (!memberIds.has(record.member_id) && record.member_left !== 'Y') {
+            summary.left.push(record.member_id);
+            flagUpdates.set(record.member_id, { member_left: 'Y' });
+          }
+        }
+      }
+      if (flagUpdates.size > 0) {
+        await this.paymentRepository.updatePaymentDataBatch(yyyymm, [...flagUpdates.keys()], [...flagUpdates.values()]);
+      }
+
+      console.log(
+        `✅ Payment links of ${yyyymm} generated. Added: ${summary.added.length}, Skipped: ${summary.skipped.length}, Left: ${summary.left.length}, Rejoined: ${summary.rejoined.length}, Invalid: ${summary.invalid.length}`,
+      );
+      return summary;
+    } catch (error) {
+      console.error('❌ Error generating payment links:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Member's amount due: per-member override > tier amount > ECPAY_PAYMENT_LINK_TOTAL_AMOUNT
+   */
+  private resolveDues(member: MemberData, tiers: Map<string, DuesTierData>): DuesTierData {
+    const tier = tiers.get(member.dues_tier);
+    if (!tier) {
+      console.warn(`⚠️  Unknown dues tier '${member.dues_tier}' of member ${member.member_id}, use default amount`);
+    }
+
+    const override = Number(member.dues_amount);
+    return {
+      amount: member.dues_amount && override > 0 ? override : (tier?.amount ?? Number(config.ecpay.totalAmount)),
+      item_name: tier?.item_name ?? config.ecpay.itemName,
+    };
+  }
+}
@@ -0,0 +1,117 @@
+import * as crypto from 'crypto';
+import config from '../configs';
+
+export interface PaymentLinkPayload {
+  memberId: string;
+  yyyymm: string;
+  amount: number;
+  expiresAt: number; // unix seconds
+}
+
+/**
+ * Cancels one credit card subscription. It doesn't expire: it only works while that subscription is active.
+ */
+export interface SubscriptionCancelPayload {
+  purpose: 'cancel';
+  memberId: string;
+  merchantTradeNo: string;
+}
+
+export type PaymentLinkVerifyResult =
+  | { valid: true; payload: PaymentLinkPayload }
+  | { valid: false; reason: 'invalid' | 'expired'; payload?: PaymentLinkPayload };
+
+export class PaymentLinkTokenService {
+  private secret: string;
+
+  constructor() {
+    this.secret = config.paymentLink.secret;
+    if (!this.secret) {
+      console.warn('⚠️  PAYMENT_LINK_SECRET not set, payment links cannot be signed or verified');
+    }
+    console.log('✅ Payment link token service initialized');
+    console.log(`   Link TTL: ${config.paymentLink.ttlDays} days`);
+  }
+
+  private signature(encodedPayload: string): string {
+    return crypto.createHmac('sha256', this.secret).update(encodedPayload).digest('base64url');
+  }
+
+  /**
+   * base64url(payload).base64url(HMAC-SHA256)
+   */
+  private encode(payload: PaymentLinkPayload | SubscriptionCancelPayload): string {
+    if (!this.secret) {
+      throw new Error('PAYMENT_LINK_SECRET not set');
+    }
+
+    const encodedPayload = Buffer.from(JSON.stringify(payload)).toString('base64url');
+    return `${encodedPayload}.${this.signature(encodedPayload)}`;
+  }
+
+  /**
+   * The payload of a token with a valid signature, undefined otherwise
+   */
+  private decode(token: string): Record<string, any> | undefined {
+    const [encodedPayload, signature] = token.split('.');
+    if (!this.secret || !encodedPayload || !signature) {
+      return undefined;
+    }
+
+    const expected = Buffer.from(this.signature(encodedPayload));
+    const received = Buffer.from(signature);
+    if (expected.length !== received.length || !crypto.timingSafeEqual(expected, received)) {
+      return undefined;
+    }
+
+    try {
+      return JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf8'));
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Create a signed payment link token
+   */
+  sign(memberId: string, yyyymm: string, amount: number): string {
+    return this.encode({
+      memberId,
+      yyyymm,
+      amount,
+      expiresAt: Math.floor(Date.now() / 1000) + config.paymentLink.ttlDays * 24 * 60 * 60,
+    });
+  }
+
+  /**
+   * Verify signature and expiry. An expired token still returns its payload, so it can be reissued.
+   */
+  verify(token: string): PaymentLinkVerifyResult {
+    const payload = this.decode(token);
+    // Cancel tokens can't pay a month
+    if (!payload || payload.purpose) {
+      return { valid: false, reason: 'invalid' };
+    }
+
+    if (payload.expiresAt < Date.now() / 1000) {
+      return { valid: false, reason: 'expired', payload: payload as PaymentLinkPayload };
+    }
+
+    return { valid: true, payload: payload as PaymentLinkPayload };
+  }
+
+  /**
+   * Create a signed token cancelling a member's subscription
+   */
+  signCancel(memberId: string, merchantTradeNo: string): string {
+    return this.encode({ purpose: 'cancel', memberId, merchantTradeNo });
+  }
+
+  /**
+   * Verify a cancel token, undefined when it is not a valid one
+   */
+  verifyCancel(token: string): SubscriptionCancelPayload | undefined {
+    const payload = this.decode(token);
+    return payload?.purpose === 'cancel' ? (payload as SubscriptionCancelPayload) : undefined;
+  }
+}
@@ -0,0 +1,121 @@
+import { PaymentRecord, PaymentRepository } from '../types/repositoryTypes';
+import { InvoiceAdjustmentResult, IssueInvoiceResult } from '../types/ecpayTypes';
+import { EInvoiceService } from './einvoiceService';
+import { EmailService } from './emailService';
+import { EmailTemplateService } from './emailTemplateService';
+import config from '../configs';
+
+export class ReceiptService {
+  private paymentRepository: PaymentRepository;
+  private einvoiceService: EInvoiceService;
+  private emailService: EmailService;
+  private emailTemplateService: EmailTemplateService;
+
+  constructor(
+    paymentRepository: PaymentRepository,
+    einvoiceService: EInvoiceService,
+    emailService: EmailService,
+    emailTemplateService: EmailTemplateService,
+  ) {
+    this.paymentRepository = paymentRepository;
+    this.einvoiceService = einvoiceService;
+    this.emailService = emailService;
+    this.emailTemplateService = emailTemplateService;
+  }
+
+  /**
+   * Issue the e-invoice for a confirmed payment and email the member a confirmation.
+   * The payment is already recorded, so failures are logged instead of thrown.
+   * Skipped when the month already has an invoice, so replayed callbacks don't issue twice.
+   * Safe to call again after a failure: an invoice issued but not recorded is looked up by its RelateNumber.
+   */
+  async issueReceipt(yyyymm: string, memberId: string): Promise<void> {
+    try {
+      const record = await this.paymentRepository.getPaymentData(yyyymm, memberId);
+      if (!record || record.paid !== 'Y') {
+        console.warn(`⚠️  No paid record of member:${memberId} in ${yyyymm}, skip receipt`);
+        return;
+      }
+      if (record.invoice_no) {
+        console.log(`Receipt of member:${memberId} ${yyyymm} already issued: ${record.invoice_no}`);
+        return;
+      }
+
+      const amount = Number(record.paid_amount) || Number(record.amount_due) || Number(config.ecpay.totalAmount);
+      const itemName = record.item_name || config.ecpay.itemName;
+
+      let invoice: Partial<PaymentRecord> = {};
+      if (this.einvoiceService.isConfigured()) {
+        // Periodic charges share one MerchantTradeNo, the month keeps RelateNumber unique
+        const relateNumber = `${record.unique_payment_link}${yyyymm}`;
+
+        // An earlier attempt may have issued the invoice without recording it, ECPay refuses the RelateNumber twice
+        let result = record.invoice_relate_number === relateNumber ? await this.findInvoice(relateNumber) : undefined;
+        if (!result) {
+          await this.paymentRepository.updatePaymentData(yyyymm, memberId, { invoice_relate_number: relateNumber });
+          result = await this.einvoiceService.issueInvoice({
+            relateNumber,
+            customerId: memberId,
+            customerEmail: record.member_email,
+            itemName,
+            amount,
+          });
+        }
+
+        if (result.RtnCode !== 1) {
+          console.error(`❌ Failed to issue e-invoice for member:${memberId} ${yyyymm}: ${result.RtnMsg}`);
+        } else {
+          invoice = { invoice_no: result.InvoiceNo, invoice_date: result.InvoiceDate };
+          await this.paymentRepository.updatePaymentData(yyyymm, memberId, invoice);
+          console.log(`✅ Issued e-invoice ${result.InvoiceNo} for member:${memberId} ${yyyymm}`);
+        }
+      }
+
+      const email = await this.emailTemplateService.renderForMember('receipt', yyyymm, { ...record, ...invoice });
+      const emailResult = await this.emailService.sendEmail([record.member_email], email);
+      if (emailResult.failureCount > 0) {
+        console.error(`❌ Failed to email receipt to member:${memberId}`);
+      }
+    } catch (error) {
+      console.error(`❌ Error issuing receipt for member:${memberId} ${yyyymm}:`, error);
+    }
+  }
+
+  /**
+   * Void the month's invoice when its payment was refunded in full, or credit the refunded part with an allowance.
+   * undefined when the month has no invoice. Errors are thrown, the caller reports them with the refund.
+   */
+  async adjustInvoiceForRefund(
+    yyyymm: string,
+    memberId: string,
+    refund: { amount: number; full: boolean },
+  ): Promise<InvoiceAdjustmentResult | undefined> {
+    const record = await this.paymentRepository.getPaymentData(yyyymm, memberId);
+    if (!record?.invoice_no || !this.einvoiceService.isConfigured()) return undefined;
+
+    const result = refund.full
+      ? await this.einvoiceService.invalidInvoice(record.invoice_no, record.invoice_date || '', 'dues refunded')
+      : await this.einvoiceService.allowanceInvoice(record.invoice_no, record.invoice_date || '', {
+          customerEmail: record.member_email,
+          itemName: record.item_name || config.ecpay.itemName,
+          amount: refund.amount,
+        });
+    if (result.RtnCode !== 1) {
+      console.error(`❌ Failed to adjust e-invoice ${record.invoice_no} of member:${memberId}: ${result.RtnMsg}`);
+    } else {
+      console.log(`✅ E-invoice ${record.invoice_no} ${refund.full ? 'voided' : `allowance ${result.AllowanceNo}`}`);
+    }
+    return result;
+  }
+
+  /**
+   * The invoice already issued under relateNumber, undefined when there is none
+   */
+  private async findInvoice(relateNumber: string): Promise<IssueInvoiceResult | undefined> {
+    const result = await this.einvoiceService.queryInvoice(relateNumber);
+    if (result.RtnCode !== 1 || !result.InvoiceNo) return undefined;
+
+    console.log(`Found e-invoice ${result.InvoiceNo} issued earlier for ${relateNumber}`);
+    return result;
+  }
+}
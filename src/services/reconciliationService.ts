@@ -0,0 +1,188 @@
+import { PaymentRecord, PaymentRepository } from '../types/repositoryTypes';
+import { ECPayService } from './ecpayService';
+import { ReceiptService } from './receiptService';
+import { LedgerService } from './ledgerService';
+import { ReconciliationReport } from '../types';
+import { QueryTradeInfo } from '../types/ecpayTypes';
+
+// QueryTradeInfo TradeStatus: 1 = paid, 0 = order created but not paid yet, anything else is an error code
+const TRADE_STATUS_PAID = '1';
+const TRADE_STATUS_PENDING = '0';
+
+export class ReconciliationService {
+  private paymentRepository: PaymentRepository;
+  private ecPayService: ECPayService;
+  private receiptService: ReceiptService;
+  private ledgerService: LedgerService;
+
+  constructor(
+    paymentRepository: PaymentRepository,
+    ecPayService: ECPayService,
+    receiptService: ReceiptService,
+    ledgerService: LedgerService,
+  ) {
+    this.paymentRepository = paymentRepository;
+    this.ecPayService = ecPayService;
+    this.receiptService = receiptService;
+    this.ledgerService = ledgerService;
+  }
+
+  /**
+   * Reconcile the previous and the current month: a payment made late in a month may be confirmed after it ends,
+   * and its callback may have been the one lost. Months without a sheet are skipped.
+   */
+  async reconcileRecentMonths(now: Date = new Date()): Promise<ReconciliationReport[]> {
+    const toYYYYMM = (date: Date) => `${date.getFullYear()}${(date.getMonth() + 1).toString().padStart(2, '0')}`;
+    const months = [toYYYYMM(new Date(now.getFullYear(), now.getMonth() - 1, 1)), toYYYYMM(now)];
+
+    const reports: ReconciliationReport[] = [];
+    for (const yyyymm of months) {
+      if (!(await this.paymentRepository.hasMonth(yyyymm))) {
+        console.log(`No sheet for ${yyyymm}, nothing to reconcile`);
+        continue;
+      }
+      reports.push(await this.reconcileMonth(yyyymm));
+    }
+    return reports;
+  }
+
+  /**
+   * Query ECPay for every issued but unpaid trade in the monthly sheet and write back the real status,
+   * then record ledger entries the month's earlier payments are missing
+   */
+  async reconcileMonth(yyyymm: string): Promise<ReconciliationReport> {
+    console.log(`🔄 Reconciling payments in sheet:${yyyymm}`);
+
+    const paymentDatas = await this.paymentRepository.getAllPaymentDatas(yyyymm);
+    const unsettled = paymentDatas.filter((d) => d.unique_payment_link && d.paid !== 'Y');
+
+    const report: ReconciliationReport = {
+      yyyymm,
+      checked: 0,
+      updated: [],
+      pending: [],
+      failed: [],
+      ledgerBackfilled: [],
+    };
+
+    // Query one by one, QueryTradeInfo is rate limited per merchant
+    for (const data of unsettled) {
+      // Any trade issued for the month may be the one that got paid, not only the latest
+      const issuedTrades = await this.paymentRepository.getIssuedTrades(data.member_id, yyyymm);
+      const merchantTradeNos = issuedTrades.length
+        ? issuedTrades.filter((t) => t.status !== 'paid').map((t) => t.merchant_trade_no)
+        : [data.unique_payment_link!];
+
+      for (const merchantTradeNo of merchantTradeNos) {
+        report.checked++;
+        try {
+          const info = await this.ecPayService.queryECPay(merchantTradeNo);
+
+          if (info.TradeStatus === TRADE_STATUS_PAID) {
+            await this.settlePaidTrade(yyyymm, data, merchantTradeNo, info);
+            report.updated.push({
+              member_id: data.member_id,
+              merchantTradeNo,
+              paymentDate: info.PaymentDate,
+              tradeAmt: info.TradeAmt,
+            });
+            break;
+          } else if (info.TradeStatus === TRADE_STATUS_PENDING) {
+            report.pending.push({ member_id: data.member_id, merchantTradeNo });
+          } else {
+            report.failed.push({
+              member_id: data.member_id,
+              merchantTradeNo,
+              error: `TradeStatus:${info.TradeStatus}`,
+            });
+          }
+        } catch (error) {
+          console.error(`❌ Error reconciling ${merchantTradeNo}:`, error);
+          report.failed.push({
+            member_id: data.member_id,
+            merchantTradeNo,
+            error: error instanceof Error ? error.message : 'Unknown error',
+          });
+        }
+      }
+    }
+
+    // Trades settled above were just recorded, only rows paid before this run can be missing an entry
+    report.ledgerBackfilled = await this.ledgerService.backfillPayments(
+      yyyymm,
+      paymentDatas.filter((d) => d.paid === 'Y'),
+    );
+
+    console.log(
+      `✅ Reconciliation of ${yyyymm} done. Checked: ${report.checked}, Updated: ${report.updated.length}, Pending: ${report.pending.length}, Failed: ${report.failed.length}, Ledger backfilled: ${report.ledgerBackfilled.length}`,
+    );
+    return report;
+  }
+
+  /**
+   * Record a trade ECPay reports as paid whose notification never reached us
+   */
+  async settlePaidTrade(
+    yyyymm: string,
+    data: PaymentRecord,
+    merchantTradeNo: string,
+    info: Pick<QueryTradeInfo, 'PaymentDate' | 'TradeAmt'>,
+  ): Promise<void> {
+    const trade = (await this.paymentRepository.getIssuedTrades(data.member_id, yyyymm)).find(
+      (t) => t.merchant_trade_no === merchantTradeNo,
+    );
+    // Older registry rows don't know their covered months, the row's belong to its latest trade
+    const coveredMonths = trade?.covered_months
+      ? trade.covered_months
+      : data.unique_payment_link === merchantTradeNo
+        ? data.covered_months
+        : '';
+
+    // Trade's own row last, so a retried notification redoes the rest until the row is marked paid
+    await this.markCoveredMonthsPaid(
+      { ...data, unique_payment_link: merchantTradeNo, covered_months: coveredMonths },
+      info.PaymentDate,
+    );
+    await this.paymentRepository.updateIssuedTrade(merchantTradeNo, { status: 'paid', paid_date: info.PaymentDate });
+    await this.paymentRepository.updatePaymentData(yyyymm, data.member_id, {
+      payment_link: undefined,
+      payment_link_sent: undefined,
+      unique_payment_link: merchantTradeNo,
+      covered_months: coveredMonths,
+      paid: 'Y',
+      paid_date: info.PaymentDate,
+      paid_amount: info.TradeAmt,
+    } as PaymentRecord);
+    await this.ledgerService.recordPayment(yyyymm, data.member_id, merchantTradeNo, {
+      paymentDate: info.PaymentDate,
+      amount: Number(info.TradeAmt),
+    });
+    await this.receiptService.issueReceipt(yyyymm, data.member_id);
+  }
+
+  /**
+   * Mark every month of a multi-month prepayment trade paid except the trade's own (first) month,
+   * creating future months / records as needed. The trade amount stays on the first month's record,
+   * a created record gets the first month's amount_due.
+   */
+  private async markCoveredMonthsPaid(record: PaymentRecord, paymentDate: string): Promise<void> {
+    if (!record.covered_months) return;
+
+    const months = record.covered_months.split(',');
+    for (const yyyymm of months.slice(1)) {
+      const existing = await this.paymentRepository.getPaymentData(yyyymm, record.member_id);
+      if (existing?.paid === 'Y') {
+        console.log(`member:${record.member_id} ${yyyymm} already paid, skip`);
+        continue;
+      }
+
+      await this.paymentRepository.upsertPaymentData(yyyymm, record.member_id, record.member_email, {
+        unique_payment_link: record.unique_payment_link,
+        paid: 'Y',
+        paid_date: paymentDate,
+        covered_months: record.covered_months,
+        amount_due: existing?.amount_due ? undefined : record.amount_due,
+      });
+    }
+  }
+}
@@ -0,0 +1,136 @@
+import config from '../configs';
+import { MemberData, MemberRepository, PaymentRecord, PaymentRepository } from '../types/repositoryTypes';
+import { BatchEmailSentData, EmailTemplate, ReminderEntry, ReminderRunSummary } from '../types';
+import { EmailTemplateName } from '../templates/emailTemplates';
+import { EmailService } from './emailService';
+import { EmailTemplateService } from './emailTemplateService';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// The n-th reminder of a month uses the n-th template, later ones the last
+const REMINDER_TEMPLATES: EmailTemplateName[] = ['reminder_1', 'reminder_2', 'reminder_3'];
+
+export class ReminderService {
+  private paymentRepository: PaymentRepository;
+  private memberRepository: MemberRepository;
+  private emailService: EmailService;
+  private emailTemplateService: EmailTemplateService;
+
+  constructor(
+    paymentRepository: PaymentRepository,
+    memberRepository: MemberRepository,
+    emailService: EmailService,
+    emailTemplateService: EmailTemplateService,
+  ) {
+    this.paymentRepository = paymentRepository;
+    this.memberRepository = memberRepository;
+    this.emailService = emailService;
+    this.emailTemplateService = emailTemplateService;
+  }
+
+  /**
+   * Send the reminders due at now. An unpaid row gets its n-th reminder REMINDER_SCHEDULE_DAYS[n-1] days after
+   * its payment link was emailed; after a missed run only the next one is sent, the one after keeps the schedule's gap.
+   * Rows without a send time (links emailed before reminders existed) are never reminded.
+   */
+  async sendReminders(now: Date = new Date(), dryRun: boolean = false): Promise<ReminderRunSummary> {
+    const schedule = config.reminders.scheduleDays.filter((days) => days > 0).sort((a, b) => a - b);
+    const summary: ReminderRunSummary = { dryRun, checked: 0, due: [], sent: [], failed: [], optedOut: [] };
+    if (schedule.length === 0) {
+      console.warn('⚠️  REMINDER_SCHEDULE_DAYS has no positive day, no reminders sent');
+      return summary;
+    }
+
+    // Links of older months went out longer ago than the schedule runs, no need to read them
+    const oldest = new Date(now.getTime() - (schedule[schedule.length - 1] + 31) * DAY_MS);
+    const oldestYYYYMM = `${oldest.getFullYear()}${(oldest.getMonth() + 1).toString().padStart(2, '0')}`;
+    const months = (await this.paymentRepository.getMonths()).filter((yyyymm) => yyyymm >= oldestYYYYMM);
+    const members = new Map((await this.memberRepository.getAllMembers()).map((m) => [m.member_id, m]));
+
+    for (const yyyymm of months) {
+      const records = (await this.paymentRepository.getAllPaymentDatas(yyyymm)).filter(
+        (r) => r.paid !== 'Y' && r.payment_link_sent === 'Y' && r.member_left !== 'Y',
+      );
+      summary.checked += records.length;
+
+      const due: Array<{ record: PaymentRecord; member: MemberData; reminder: number }> = [];
+      for (const record of records) {
+        const reminder = this.nextReminder(record, schedule, now);
+        const member = members.get(record.member_id);
+        if (!reminder || !member || member.status !== 'active') continue;
+
+        if (member.reminder_opt_out === 'Y') {
+          summary.optedOut.push({ member_id: record.member_id, yyyymm, reminder });
+          continue;
+        }
+        due.push({ record, member, reminder });
+      }
+      summary.due.push(...due.map(({ record, reminder }) => ({ member_id: record.member_id, yyyymm, reminder })));
+      if (dryRun || due.length === 0) continue;
+
+      await this.sendMonth(yyyymm, due, now, summary);
+    }
+
+    console.log(
+      `✅ Reminders${dryRun ? ' (dry run)' : ''}: checked ${summary.checked}, due ${summary.due.length}, sent ${summary.sent.length}, failed ${summary.failed.length}, opted out ${summary.optedOut.length}`,
+    );
+    return summary;
+  }
+
+  /**
+   * Email a month's due reminders and record them on the rows of the ones sent
+   */
+  private async sendMonth(
+    yyyymm: string,
+    due: Array<{ record: PaymentRecord; member: MemberData; reminder: number }>,
+    now: Date,
+    summary: ReminderRunSummary,
+  ): Promise<void> {
+    const templates = new Map<EmailTemplateName, EmailTemplate>();
+    const emails: BatchEmailSentData[] = [];
+    for (const { record, member, reminder } of due) {
+      const name = REMINDER_TEMPLATES[Math.min(reminder, REMINDER_TEMPLATES.length) - 1];
+      if (!templates.has(name)) templates.set(name, await this.emailTemplateService.getTemplate(name));
+
+      const values = this.emailTemplateService.mergeValues(name, yyyymm, record, member);
+      emails.push({
+        to: record.member_email,
+        member_id: record.member_id,
+        ...this.emailTemplateService.render(templates.get(name)!, values),
+      });
+    }
+
+    const result = await this.emailService.sendEmailBatch(emails);
+    const sentIds = new Set(result.results.filter((r) => r.success).map((r) => r.member_id));
+
+    const sent: ReminderEntry[] = [];
+    for (const { record, reminder } of due) {
+      const entry = { member_id: record.member_id, yyyymm, reminder };
+      (sentIds.has(record.member_id) ? sent : summary.failed).push(entry);
+    }
+    summary.sent.push(...sent);
+
+    if (sent.length > 0) {
+      await this.paymentRepository.updatePaymentDataBatch(
+        yyyymm,
+        sent.map((entry) => entry.member_id),
+        sent.map((entry) => ({ reminder_count: String(entry.reminder), last_reminded_at: now.toISOString() })),
+      );
+    }
+  }
+
+  /**
+   * Number of the reminder due for a row at now (1 for the first), undefined when none is
+   */
+  private nextReminder(record: PaymentRecord, schedule: number[], now: Date): number | undefined {
+    const count = Number(record.reminder_count) || 0;
+    const sentAt = new Date(record.payment_link_sent_at || '').getTime();
+    if (count >= schedule.length || isNaN(sentAt)) return undefined;
+    if (now.getTime() < sentAt + schedule[count] * DAY_MS) return undefined;
+
+    const lastRemindedAt = new Date(record.last_reminded_at || '').getTime();
+    const gapDays = schedule[count] - (count > 0 ? schedule[count - 1] : 0);
+    if (!isNaN(lastRemindedAt) && now.getTime() < lastRemindedAt + gapDays * DAY_MS) return undefined;
+
+    return count + 1;
+  }
+}
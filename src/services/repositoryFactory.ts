@@ -0,0 +1,30 @@
+import { readFileSync } from 'fs';
+import { GoogleSheetsService } from './googleSheetService';
+import { SqliteRepository } from './sqliteRepository';
+import { MemoryRepository } from './memoryRepository';
+import config from '../configs';
+import { AuditedRepository } from './auditedRepository';
+import { Repository } from '../types/repositoryTypes';
+
+/**
+ * Storage backend selected by STORAGE_BACKEND, with payment record writes audited
+ */
+export const createRepository = (): Repository => new AuditedRepository(createBackend());
+
+const createBackend = (): Repository => {
+  switch (config.storage.backend) {
+    case 'sheets': {
+      const serviceAccountKey = JSON.parse(readFileSync(config.googleSheet.serviceAccountKeyPath, 'utf8'));
+      return new GoogleSheetsService(config.googleSheet.spreadsheetId, {
+        clientEmail: serviceAccountKey.client_email,
+        privateKey: serviceAccountKey.private_key,
+      });
+    }
+    case 'sqlite':
+      return new SqliteRepository(config.storage.sqlitePath);
+    case 'memory':
+      return new MemoryRepository();
+    default:
+      throw new Error(`Unknown STORAGE_BACKEND:${config.storage.backend}`);
+  }
+};
@@ -0,0 +1,112 @@
+import {
+  AUDIT_FIELDS,
+  DUES_TIER_FIELDS,
+  EMAIL_TEMPLATE_FIELDS,
+  LEDGER_FIELDS,
+  MEMBER_FIELDS,
+  PAYMENT_RECORD_FIELDS,
+  SUBSCRIPTION_FIELDS,
+  TRADE_NO_FIELDS,
+} from '../types/repositoryTypes';
+
+export const MEMBER_SHEET_TITLE = 'All_members';
+export const DUES_TIER_SHEET_TITLE = 'Dues_tiers';
+export const SUBSCRIPTION_SHEET_TITLE = 'Subscriptions';
+export const TRADE_NO_SHEET_TITLE = 'Trade_numbers';
+export const LEDGER_SHEET_TITLE = 'Ledger';
+export const AUDIT_SHEET_TITLE = 'Audit_log';
+export const EMAIL_TEMPLATE_SHEET_TITLE = 'Email_templates';
+
+/**
+ * Header row of a sheet type. Records are read and written by column name, so the required columns
+ * (the ones rows are looked up by) must be present; the others are added when missing.
+ */
+export interface SheetSchema {
+  name: string;
+  matches: (title: string) => boolean;
+  columns: readonly string[];
+  required: readonly string[];
+}
+
+export const SHEET_SCHEMAS: SheetSchema[] = [
+  {
+    name: 'members',
+    matches: (title) => title === MEMBER_SHEET_TITLE,
+    columns: MEMBER_FIELDS,
+    required: ['member_id', 'member_email'],
+  },
+  {
+    name: 'dues tiers',
+    matches: (title) => title === DUES_TIER_SHEET_TITLE,
+    columns: DUES_TIER_FIELDS,
+    required: ['dues_tier', 'amount'],
+  },
+  {
+    name: 'monthly',
+    matches: (title) => /^\d{6}$/.test(title),
+    columns: PAYMENT_RECORD_FIELDS,
+    required: ['member_id', 'member_email'],
+  },
+  {
+    name: 'trade numbers',
+    matches: (title) => title === TRADE_NO_SHEET_TITLE,
+    columns: TRADE_NO_FIELDS,
+    required: ['merchant_trade_no', 'member_id', 'yyyymm'],
+  },
+  {
+    name: 'subscriptions',
+    matches: (title) => title === SUBSCRIPTION_SHEET_TITLE,
+    columns: SUBSCRIPTION_FIELDS,
+    required: ['merchant_trade_no', 'member_id'],
+  },
+  {
+    name: 'ledger',
+    matches: (title) => title === LEDGER_SHEET_TITLE,
+    columns: LEDGER_FIELDS,
+    required: ['merchant_trade_no', 'yyyymm'],
+  },
+  {
+    name: 'audit log',
+    matches: (title) => title === AUDIT_SHEET_TITLE,
+    columns: AUDIT_FIELDS,
+    required: ['member_id', 'field'],
+  },
+  {
+    name: 'email templates',
+    matches: (title) => title === EMAIL_TEMPLATE_SHEET_TITLE,
+    columns: EMAIL_TEMPLATE_FIELDS,
+    required: ['name'],
+  },
+];
+
+export const findSheetSchema = (title: string): SheetSchema | undefined =>
+  SHEET_SCHEMAS.find((schema) => schema.matches(title));
+
+/**
+ * Check a header row against its schema.
+ * errors: the sheet can't be read or written safely (google-spreadsheet itself rejects duplicated columns).
+ * warnings: columns the schema doesn't know, e.g. a renamed column whose data is no longer read.
+ */
+export const validateHeaders = (
+  schema: SheetSchema,
+  headerValues: string[],
+): { missing: string[]; errors: string[]; warnings: string[] } => {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  const missingRequired = schema.required.filter((column) => !headerValues.includes(column));
+  if (missingRequired.length > 0) {
+    errors.push(`missing required columns [${missingRequired.join(', ')}]`);
+  }
+
+  const unknown = headerValues.filter((header) => header && !schema.columns.includes(header));
+  if (unknown.length > 0) {
+    warnings.push(`unknown columns [${unknown.join(', ')}] are not read, renamed?`);
+  }
+
+  return {
+    missing: schema.columns.filter((column) => !headerValues.includes(column)),
+    errors,
+    warnings,
+  };
+};
@@ -0,0 +1,477 @@
+import initSqlJs, { Database } from 'sql.js';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import config from '../configs';
+import {
+  AUDIT_FIELDS,
+  AuditRecord,
+  DUES_TIER_FIELDS,
+  DuesTierData,
+  EMAIL_TEMPLATE_FIELDS,
+  EmailTemplateRecord,
+  LEDGER_FIELDS,
+  LedgerRecord,
+  MEMBER_FIELDS,
+  MemberData,
+  PAYMENT_RECORD_FIELDS,
+  PaymentBatchUpdateResult,
+  PaymentRecord,
+  Repository,
+  SchemaMigrationResult,
+  StorageReadiness,
+  SUBSCRIPTION_FIELDS,
+  SubscriptionRecord,
+  TRADE_NO_FIELDS,
+  TradeNoRecord,
+} from '../types/repositoryTypes';
+
+/**
+ * Every column is TEXT, like the sheet cells the records come from
+ */
+const TABLES: Record<string, { columns: string[]; primaryKey: string[] }> = {
+  members: { columns: MEMBER_FIELDS, primaryKey: ['member_id'] },
+  dues_tiers: { columns: DUES_TIER_FIELDS, primaryKey: ['dues_tier'] },
+  payments: { columns: ['yyyymm', ...PAYMENT_RECORD_FIELDS], primaryKey: ['yyyymm', 'member_id'] },
+  trade_numbers: { columns: TRADE_NO_FIELDS, primaryKey: ['merchant_trade_no'] },
+  subscriptions: { columns: SUBSCRIPTION_FIELDS, primaryKey: ['merchant_trade_no'] },
+  ledger: { columns: LEDGER_FIELDS, primaryKey: ['merchant_trade_no', 'yyyymm', 'entry_type'] },
+  email_templates: { columns: EMAIL_TEMPLATE_FIELDS, primaryKey: ['name'] },
+  // Append-only, entries are ordered by rowid
+  audit_log: { columns: AUDIT_FIELDS, primaryKey: [] },
+};
+
+/**
+ * SQLite file storage (sql.js, no native build). The whole database is loaded in memory
+ * and written back to the file after every change, which suits the size of a union's books.
+ */
+export class SqliteRepository implements Repository {
+  private filePath: string;
+  private db: Promise<Database> | undefined;
+  // Columns added to each table when the database was opened
+  private addedColumns: Map<string, string[]>;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+    this.addedColumns = new Map();
+    console.log('✅ SQLite repository initialized');
+    console.log(`   File: ${this.filePath}`);
+  }
+
+  /**
+   * Open the database file (or create it) on first use, creating missing tables and columns
+   */
+  private getDb(): Promise<Database> {
+    if (!this.db) {
+      this.db = (async () => {
+        const SQL = await initSqlJs();
+        const db = new SQL.Database(existsSync(this.filePath) ? readFileSync(this.filePath) : undefined);
+
+        for (const [table, { columns, primaryKey }] of Object.entries(TABLES)) {
+          const definitions = columns.map((c) => `${c} TEXT NOT NULL DEFAULT ''`);
+          if (primaryKey.length > 0) definitions.push(`PRIMARY KEY (${primaryKey.join(', ')})`);
+          db.run(`CREATE TABLE IF NOT EXISTS ${table} (${definitions.join(', ')})`);
+
+          const existing = (db.exec(`PRAGMA table_info(${table})`)[0]?.values || []).map((row) => row[1]);
+          const missing = columns.filter((c) => !existing.includes(c));
+          for (const column of missing) {
+            db.run(`ALTER TABLE ${table} ADD COLUMN ${column} TEXT NOT NULL DEFAULT ''`);
+            console.log(`Added column ${column} to table: ${table}`);
+          }
+          this.addedColumns.set(table, missing);
+
+          // SQLite can't alter a primary key, the table is copied into a new one
+          const tableInfo = db.exec(`PRAGMA table_info(${table})`)[0]?.values || [];
+          const existingKey = tableInfo
+            .filter((row) => Number(row[5]) > 0)
+            .sort((a, b) => Number(a[5]) - Number(b[5]))
+            .map((row) => row[1]);
+          if (existingKey.join(',') !== primaryKey.join(',')) {
+            db.run(`ALTER TABLE ${table} RENAME TO ${table}_old`);
+            db.run(`CREATE TABLE ${table} (${definitions.join(', ')})`);
+            db.run(`INSERT INTO ${table} (${columns.join(', ')}) SELECT ${columns.join(', ')} FROM ${table}_old`);
+            db.run(`DROP TABLE ${table}_old`);
+            console.log(`Changed primary key of table: ${table} to (${primaryKey.join(', ')})`);
+          }
+        }
+
+        return db;
+      })().catch((error) => {
+        // Not cached, the next call tries again
+        this.db = undefined;
+        throw error;
+      });
+    }
+    return this.db;
+  }
+
+  async initialize(): Promise<void> {
+    await this.getDb();
+  }
+
+  async getReadiness(): Promise<StorageReadiness> {
+    try {
+      await this.initialize();
+      return { backend: 'sqlite', ready: true, message: `file ${this.filePath}` };
+    } catch (error) {
+      return { backend: 'sqlite', ready: false, message: error instanceof Error ? error.message : 'Unknown error' };
+    }
+  }
+
+  /**
+   * Tables are migrated when the database is opened, this reports what opening it added
+   */
+  async migrateSchema(): Promise<SchemaMigrationResult[]> {
+    await this.getDb();
+    return Object.keys(TABLES).map((table) => ({
+      name: table,
+      added: this.addedColumns.get(table) || [],
+      errors: [],
+      warnings: [],
+    }));
+  }
+
+  private async query<T>(sql: string, params: string[] = []): Promise<T[]> {
+    return this.select<T>(await this.getDb(), sql, params);
+  }
+
+  private select<T>(db: Database, sql: string, params: string[]): T[] {
+    const statement = db.prepare(sql);
+    try {
+      statement.bind(params);
+      const rows: T[] = [];
+      while (statement.step()) {
+        rows.push(statement.getAsObject() as T);
+      }
+      return rows;
+    } finally {
+      statement.free();
+    }
+  }
+
+  /**
+   * Run a write and save the database file, returns the number of changed rows
+   */
+  private async execute(sql: string, params: string[]): Promise<number> {
+    const db = await this.getDb();
+    db.run(sql, params);
+    const changes = db.getRowsModified();
+
+    await this.save();
+    return changes;
+  }
+
+  private async save(): Promise<void> {
+    const db = await this.getDb();
+    mkdirSync(dirname(this.filePath), { recursive: true });
+    writeFileSync(this.filePath, Buffer.from(db.export()));
+  }
+
+  private insert(table: string, record: Record<string, any>): Promise<void> {
+    return this.insertMany(table, [record]);
+  }
+
+  /**
+   * Insert rows in one transaction and one file write
+   */
+  private async insertMany(table: string, records: Record<string, any>[]): Promise<void> {
+    const { columns } = TABLES[table];
+    const db = await this.getDb();
+    db.run('BEGIN');
+    try {
+      for (const record of records) {
+        db.run(
+          `INSERT INTO ${table} (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')})`,
+          columns.map((c) => String(record[c] ?? '')),
+        );
+      }
+      db.run('COMMIT');
+    } catch (error) {
+      db.run('ROLLBACK');
+      throw error;
+    }
+
+    await this.save();
+  }
+
+  /**
+   * Update the defined fields of data on the row matching where, undefined fields are left untouched.
+   * onRead gets the row as stored right before the write: it is read and written without awaiting in between,
+   * so no other request of this process interleaves. False when no row matches where.
+   */
+  private async updateRecord<T>(
+    table: string,
+    where: Record<string, string>,
+    data: Record<string, any>,
+    onRead?: (current: T) => void,
+  ): Promise<boolean> {
+    const db = await this.getDb();
+    const [current] = this.selectWhere<T>(db, table, where);
+    if (!current) return false;
+
+    onRead?.(current);
+    if (this.updateRows(db, table, where, data) > 0) await this.save();
+    return true;
+  }
+
+  private selectWhere<T>(db: Database, table: string, where: Record<string, string>): T[] {
+    const conditions = Object.keys(where);
+    return this.select<T>(
+      db,
+      `SELECT ${TABLES[table].columns.join(', ')} FROM ${table} WHERE ${conditions.map((c) => `${c} = ?`).join(' AND ')} ORDER BY rowid`,
+      conditions.map((c) => where[c]),
+    );
+  }
+
+  private updateRows(db: Database, table: string, where: Record<string, string>, data: Record<string, any>): number {
+    const columns = TABLES[table].columns.filter((c) => !(c in where) && data[c] != undefined);
+    if (columns.length === 0) return 0;
+
+    const conditions = Object.keys(where);
+    db.run(
+      `UPDATE ${table} SET ${columns.map((c) => `${c} = ?`).join(', ')} WHERE ${conditions.map((c) => `${c} = ?`).join(' AND ')}`,
+      [...columns.map((c) => String(data[c])), ...conditions.map((c) => where[c])],
+    );
+    return db.getRowsModified();
+  }
+
+  async getAllMembers(): Promise<MemberData[]> {
+    const members = await this.query<MemberData>(`SELECT ${MEMBER_FIELDS.join(', ')} FROM members ORDER BY rowid`);
+    return members
+      .map((member) => ({
+        ...member,
+        status: member.status || 'active',
+        dues_tier: member.dues_tier || config.dues.defaultTier,
+      }))
+      .filter((member) => member.member_id && member.member_email);
+  }
+
+  async addMember(member: MemberData): Promise<void> {
+    await this.insert('members', member);
+  }
+
+  async updateMember(
+    memberId: string,
+    data: Partial<MemberData>,
+    onRead?: (current: MemberData) => void,
+  ): Promise<void> {
+    if (!(await this.updateRecord('members', { member_id: memberId }, data, onRead))) {
+      throw new Error(`member:${memberId} not found`);
+    }
+  }
+
+  async removeMember(memberId: string, onRead?: (current: MemberData) => void): Promise<void> {
+    const db = await this.getDb();
+    const [current] = this.selectWhere<MemberData>(db, 'members', { member_id: memberId });
+    if (!current) {
+      throw new Error(`member:${memberId} not found`);
+    }
+
+    onRead?.(current);
+    await this.execute('DELETE FROM members WHERE member_id = ?', [memberId]);
+  }
+
+  async getDuesTiers(): Promise<Map<string, DuesTierData>> {
+    const tiers = new Map<string, DuesTierData>();
+    const rows = await this.query<{ dues_tier: string; amount: string; item_name: string }>(
+      'SELECT dues_tier, amount, item_name FROM dues_tiers',
+    );
+    for (const row of rows) {
+      const amount = Number(row.amount);
+      if (!row.dues_tier || !Number.isInteger(amount) || amount <= 0) {
+        console.warn(`⚠️  Skip invalid dues tier: ${row.dues_tier} ${row.amount}`);
+        continue;
+      }
+      tiers.set(row.dues_tier, { amount, item_name: row.item_name || config.ecpay.itemName });
+    }
+    return tiers;
+  }
+
+  async hasMonth(yyyymm: string): Promise<boolean> {
+    const rows = await this.query('SELECT 1 FROM payments WHERE yyyymm = ? LIMIT 1', [yyyymm]);
+    return rows.length > 0;
+  }
+
+  async getMonths(): Promise<string[]> {
+    const rows = await this.query<{ yyyymm: string }>('SELECT DISTINCT yyyymm FROM payments ORDER BY yyyymm');
+    return rows.map((row) => row.yyyymm);
+  }
+
+  async getAllPaymentDatas(yyyymm: string): Promise<PaymentRecord[]> {
+    const records = await this.query<PaymentRecord>(
+      `SELECT ${PAYMENT_RECORD_FIELDS.join(', ')} FROM payments WHERE yyyymm = ? ORDER BY rowid`,
+      [yyyymm],
+    );
+    if (records.length === 0) {
+      throw new Error(`month:${yyyymm} not found`);
+    }
+
+    return records.filter((record) => record.member_id && record.member_email);
+  }
+
+  async getPaymentData(yyyymm: string, memberId: string): Promise<PaymentRecord | undefined> {
+    const [record] = await this.query<PaymentRecord>(
+      `SELECT ${PAYMENT_RECORD_FIELDS.join(', ')} FROM payments WHERE yyyymm = ? AND member_id = ?`,
+      [yyyymm, memberId],
+    );
+    return record;
+  }
+
+  async addPaymentRecords(yyyymm: string, records: PaymentRecord[]): Promise<void> {
+    await this.insertMany(
+      'payments',
+      records.map((record) => ({ ...record, yyyymm })),
+    );
+  }
+
+  /**
+   * Read, check and write without awaiting in between, so no other request of this process interleaves
+   */
+  async updatePaymentData(
+    yyyymm: string,
+    memberId: string,
+    data: Partial<PaymentRecord>,
+    precondition?: (current: PaymentRecord) => boolean,
+  ): Promise<boolean> {
+    console.log(`[updatePaymentData] yyyymm:${yyyymm} memberId:${memberId}`);
+
+    const db = await this.getDb();
+    const [current] = this.select<PaymentRecord>(
+      db,
+      `SELECT ${PAYMENT_RECORD_FIELDS.join(', ')} FROM payments WHERE yyyymm = ? AND member_id = ?`,
+      [yyyymm, memberId],
+    );
+    if (!current) {
+      throw new Error(`member:${memberId} not found in month:${yyyymm}`);
+    }
+    if (precondition && !precondition(current)) return false;
+
+    if (this.updateRows(db, 'payments', { yyyymm, member_id: memberId }, data) > 0) {
+      await this.save();
+    }
+    return true;
+  }
+
+  /**
+   * One transaction and one file write for the whole batch
+   */
+  async updatePaymentDataBatch(
+    yyyymm: string,
+    memberIds: string[],
+    datas: Partial<PaymentRecord>[],
+    onRead?: (current: PaymentRecord) => void,
+  ): Promise<PaymentBatchUpdateResult> {
+    if (memberIds.length != datas.length) throw new Error('idLength != dataLength');
+
+    const db = await this.getDb();
+    const rows = this.selectWhere<PaymentRecord>(db, 'payments', { yyyymm });
+    if (rows.length === 0) {
+      throw new Error(`month:${yyyymm} not found`);
+    }
+    const existing = new Map(rows.map((row) => [row.member_id, row]));
+
+    const result: PaymentBatchUpdateResult = { updated: [], notFound: [] };
+    db.run('BEGIN');
+    try {
+      memberIds.forEach((memberId, i) => {
+        const current = existing.get(memberId);
+        if (!current) {
+          result.notFound.push(memberId);
+          return;
+        }
+        onRead?.(current);
+
+        const columns = PAYMENT_RECORD_FIELDS.filter((c) => c !== 'member_id' && datas[i][c] != undefined);
+        if (columns.length > 0) {
+          db.run(
+            `UPDATE payments SET ${columns.map((c) => `${c} = ?`).join(', ')} WHERE yyyymm = ? AND member_id = ?`,
+            [...columns.map((c) => String(datas[i][c])), yyyymm, memberId],
+          );
+        }
+        result.updated.push(memberId);
+      });
+      db.run('COMMIT');
+    } catch (error) {
+      db.run('ROLLBACK');
+      throw error;
+    }
+
+    await this.save();
+    return result;
+  }
+
+  async upsertPaymentData(
+    yyyymm: string,
+    memberId: string,
+    memberEmail: string,
+    data: Partial<PaymentRecord>,
+    onRead?: (current: PaymentRecord | undefined) => void,
+  ): Promise<void> {
+    const written = await this.updateRecord('payments', { yyyymm, member_id: memberId }, data, onRead);
+    if (!written) {
+      onRead?.(undefined);
+      await this.insert('payments', { ...data, yyyymm, member_id: memberId, member_email: memberEmail });
+    }
+  }
+
+  async getIssuedTrades(memberId: string, yyyymm: string): Promise<TradeNoRecord[]> {
+    return this.query<TradeNoRecord>(
+      `SELECT ${TRADE_NO_FIELDS.join(', ')} FROM trade_numbers WHERE member_id = ? AND yyyymm = ? ORDER BY rowid`,
+      [memberId, yyyymm],
+    );
+  }
+
+  async addIssuedTradeNo(record: TradeNoRecord): Promise<void> {
+    await this.insert('trade_numbers', record);
+  }
+
+  async updateIssuedTrade(
+    merchantTradeNo: string,
+    data: Partial<TradeNoRecord>,
+    onRead?: (current: TradeNoRecord) => void,
+  ): Promise<void> {
+    if (!(await this.updateRecord('trade_numbers', { merchant_trade_no: merchantTradeNo }, data, onRead))) {
+      console.warn(`⚠️  MerchantTradeNo ${merchantTradeNo} was never issued`);
+    }
+  }
+
+  async getSubscriptions(): Promise<SubscriptionRecord[]> {
+    return this.query<SubscriptionRecord>(`SELECT ${SUBSCRIPTION_FIELDS.join(', ')} FROM subscriptions ORDER BY rowid`);
+  }
+
+  async addSubscription(record: SubscriptionRecord): Promise<void> {
+    await this.insert('subscriptions', record);
+  }
+
+  async updateSubscription(
+    merchantTradeNo: string,
+    data: Partial<SubscriptionRecord>,
+    onRead?: (current: SubscriptionRecord) => void,
+  ): Promise<void> {
+    if (!(await this.updateRecord('subscriptions', { merchant_trade_no: merchantTradeNo }, data, onRead))) {
+      throw new Error(`subscription:${merchantTradeNo} not found`);
+    }
+  }
+
+  async getEmailTemplates(): Promise<EmailTemplateRecord[]> {
+    return this.query<EmailTemplateRecord>(`SELECT ${EMAIL_TEMPLATE_FIELDS.join(', ')} FROM email_templates`);
+  }
+
+  async getLedgerRecords(): Promise<LedgerRecord[]> {
+    return this.query<LedgerRecord>(`SELECT ${LEDGER_FIELDS.join(', ')} FROM ledger ORDER BY rowid`);
+  }
+
+  async addLedgerRecord(record: LedgerRecord): Promise<void> {
+    await this.insert('ledger', record);
+  }
+
+  async addAuditRecords(records: AuditRecord[]): Promise<void> {
+    await this.insertMany('audit_log', records);
+  }
+
+  async getAuditRecords(memberId: string): Promise<AuditRecord[]> {
+    return this.query<AuditRecord>(
+      `SELECT ${AUDIT_FIELDS.join(', ')} FROM audit_log WHERE member_id = ? ORDER BY rowid`,
+      [memberId],
+    );
+  }
+}
@@ -0,0 +1,129 @@
+import { readFileSync } from 'fs';
+import config from '../configs';
+import { Locale, paymentRedirectMessages, paymentRedirectTemplate } from '../templates/paymentRedirectTemplate';
+import { PaymentStatus, paymentStatusMessages, paymentStatusTemplate } from '../templates/paymentStatusTemplate';
+import {
+  SubscriptionCancelPage,
+  subscriptionCancelMessages,
+  subscriptionCancelTemplate,
+} from '../templates/subscriptionCancelTemplate';
+
+export class TemplateService {
+  private paymentRedirectTemplate: string;
+
+  constructor() {
+    this.paymentRedirectTemplate = config.page.paymentTemplatePath
+      ? readFileSync(config.page.paymentTemplatePath, 'utf8')
+      : paymentRedirectTemplate;
+  }
+
+  /**
+   * Escape a value for use in HTML text and attribute values
+   */
+  escapeHtml(value: string): string {
+    return value
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;')
+      .replace(/'/g, '&#39;');
+  }
+
+  /**
+   * Fill {{name}} (escaped) and {{{name}}} (raw) placeholders in one pass, so inserted values are never
+   * scanned for placeholders themselves. Unknown names become empty.
+   */
+  render(template: string, values: Record<string, string>): string {
+    return template.replace(/\{\{\{\s*(\w+)\s*\}\}\}|\{\{\s*(\w+)\s*\}\}/g, (_, rawName, name) =>
+      rawName !== undefined ? (values[rawName] ?? '') : this.escapeHtml(values[name] ?? ''),
+    );
+  }
+
+  /**
+   * Fill the placeholders of a plain text template (e.g. an email subject), nothing is escaped
+   */
+  renderText(template: string, values: Record<string, string>): string {
+    return template.replace(/\{\{\{?\s*(\w+)\s*\}?\}\}/g, (_, name) => values[name] ?? '');
+  }
+
+  /**
+   * Pick zh-TW or en from an explicit lang value or an Accept-Language header
+   */
+  resolveLocale(lang?: string, acceptLanguage?: string): Locale {
+    const preferred = (lang || acceptLanguage || '').toLowerCase();
+    return preferred.startsWith('en') ? 'en' : 'zh-TW';
+  }
+
+  /**
+   * Auto-submitting page that posts exactly the signed parameters to ECPay
+   */
+  renderPaymentRedirect(actionUrl: string, signedParams: Record<string, string | number>, locale: Locale): string {
+    const fields = Object.entries(signedParams)
+      .map(
+        ([name, value]) =>
+          `<input type="hidden" name="${this.escapeHtml(name)}" value="${this.escapeHtml(String(value))}">`,
+      )
+      .join('\n         ');
+
+    return this.render(this.paymentRedirectTemplate, {
+      ...paymentRedirectMessages[locale],
+      lang: locale,
+      logo: this.renderLogo(),
+      unionName: config.page.unionName,
+      itemName: String(signedParams.ItemName ?? ''),
+      amount: String(signedParams.TotalAmount ?? ''),
+      actionUrl,
+      fields,
+    });
+  }
+
+  /**
+   * Page telling the member the month is already paid, or how to finish a pending offline payment
+   */
+  renderPaymentStatus(
+    status: PaymentStatus,
+    values: { yyyymm: string; date: string; details?: string },
+    locale: Locale,
+  ): string {
+    const messages = paymentStatusMessages[locale][status];
+    const period = `${values.yyyymm.slice(0, 4)}/${values.yyyymm.slice(4)}`;
+
+    return this.render(paymentStatusTemplate, {
+      ...messages,
+      // Rendered unescaped here, escaped once by the page template
+      message: messages.message.replace('{{period}}', period).replace('{{date}}', values.date),
+      lang: locale,
+      logo: this.renderLogo(),
+      unionName: config.page.unionName,
+      details: values.details || '',
+    });
+  }
+
+  /**
+   * Subscription cancel page: the confirmation (posting the token back) or the result
+   */
+  renderSubscriptionCancel(page: SubscriptionCancelPage, token: string, locale: Locale): string {
+    const messages = subscriptionCancelMessages[locale];
+    const form =
+      page === 'confirm'
+        ? `<form method="post">
+         <input type="hidden" name="token" value="${this.escapeHtml(token)}">
+         <input type="submit" value="${this.escapeHtml(messages.submit)}" style="padding: 10px 20px; font-size: 16px;">
+         </form>`
+        : '';
+
+    return this.render(subscriptionCancelTemplate, {
+      ...messages[page],
+      lang: locale,
+      logo: this.renderLogo(),
+      unionName: config.page.unionName,
+      form,
+    });
+  }
+
+  private renderLogo(): string {
+    return config.page.logoUrl
+      ? `<img src="${this.escapeHtml(config.page.logoUrl)}" alt="${this.escapeHtml(config.page.unionName)}" style="max-height: 80px;">`
+      : '';
+  }
+}
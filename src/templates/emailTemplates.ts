@@ -0,0 +1,154 @@
+/**
+ * Built-in wording of the emails sent to members. Each part can be replaced by a file in EMAIL_TEMPLATE_DIR
+ * or a row of the Email_templates sheet (see EmailTemplateService), the subject defaults to its EMAIL_*_SUBJECT.
+ * Placeholders are the merge fields below; in the html part {{name}} is HTML-escaped, {{{name}}} is inserted as-is.
+ */
+export const EMAIL_TEMPLATE_NAMES = [
+  'payment_link',
+  'payment_info',
+  'receipt',
+  'subscription',
+  'reminder_1',
+  'reminder_2',
+  'reminder_3',
+] as const;
+export type EmailTemplateName = (typeof EMAIL_TEMPLATE_NAMES)[number];
+
+export const EMAIL_MERGE_FIELDS: Record<string, string> = {
+  union_name: 'UNION_NAME',
+  member_id: 'member id',
+  member_name: 'member name (All_members)',
+  member_email: 'member email',
+  yyyymm: 'month, e.g. 202610',
+  year: 'year of the month, e.g. 2026',
+  month: 'month number, e.g. 10',
+  period: 'month as yyyy/MM',
+  item_name: 'dues item name',
+  amount: 'amount due (paid amount in receipts)',
+  due_date: 'yyyy/MM/dd the month is due (DUES_DUE_DAY)',
+  payment_link: 'URL of the member payment link',
+  payment_info: 'ATM / CVS payment details (payment_info only)',
+  expire_date: 'deadline of the ATM / CVS payment (payment_info only)',
+  invoice_no: 'e-invoice number (receipt only, blank without e-invoice)',
+  invoice_date: 'e-invoice date (receipt only)',
+  invoice_line: 'e-invoice number and date in one line (receipt only, blank without e-invoice)',
+  cancel_link: 'URL to cancel the credit card subscription (subscription only)',
+  reminder_number: 'which reminder of the month this is, 1 for the first (reminders only)',
+};
+
+const layout = (body: string) => `<!DOCTYPE html>
+<html lang="zh-TW">
+   <head>
+      <meta charset="UTF-8">
+   </head>
+   <body style="font-family: sans-serif; line-height: 1.6;">
+      <h3>{{union_name}}</h3>
+      ${body}
+   </body>
+</html>
+`;
+
+export const emailTemplates: Record<EmailTemplateName, { text: string; html: string }> = {
+  payment_link: {
+    text: `
+    親愛的會員 {{member_name}} 您好:
+    您的 {{year}}年 {{month}}月份{{item_name}}為 NT$ {{amount}}
+    繳交連結為: {{payment_link}}
+    繳費期限: {{due_date}}
+
+    謝謝。
+    `,
+    html: layout(`<p>親愛的會員 {{member_name}} 您好:</p>
+      <p>您的 {{year}}年 {{month}}月份{{item_name}}為 <strong>NT$ {{amount}}</strong>，請於 {{due_date}} 前完成繳費。</p>
+      <p><a href="{{payment_link}}">前往繳費</a></p>
+      <p>謝謝。</p>`),
+  },
+  payment_info: {
+    text: `
+    親愛的會員 {{member_name}} 您好:
+    您的 {{year}}年 {{month}}月份會費繳費資訊如下:
+    {{payment_info}}
+    繳費期限: {{expire_date}}
+
+    謝謝。
+    `,
+    html: layout(`<p>親愛的會員 {{member_name}} 您好:</p>
+      <p>您的 {{year}}年 {{month}}月份會費繳費資訊如下:</p>
+      <p style="white-space: pre-line;">{{payment_info}}</p>
+      <p>繳費期限: {{expire_date}}</p>
+      <p>謝謝。</p>`),
+  },
+  receipt: {
+    text: `
+    親愛的會員 {{member_name}} 您好:
+    已收到您 {{year}}年 {{month}}月份{{item_name}} NT$ {{amount}}
+    {{invoice_line}}
+
+    謝謝。
+    `,
+    html: layout(`<p>親愛的會員 {{member_name}} 您好:</p>
+      <p>已收到您 {{year}}年 {{month}}月份{{item_name}} NT$ {{amount}}</p>
+      <p>{{invoice_line}}</p>
+      <p>謝謝。</p>`),
+  },
+  // Sent when a subscription's first charge succeeds, and again when a subscriber asks for a new link
+  subscription: {
+    text: `
+    親愛的會員 {{member_name}} 您好:
+    您的信用卡定期定額扣款已設定完成，之後每月將自動扣繳{{item_name}} NT$ {{amount}}。
+    如需取消定期定額扣款，請至: {{cancel_link}}
+
+    謝謝。
+    `,
+    html: layout(`<p>親愛的會員 {{member_name}} 您好:</p>
+      <p>您的信用卡定期定額扣款已設定完成，之後每月將自動扣繳{{item_name}} <strong>NT$ {{amount}}</strong>。</p>
+      <p>如需取消定期定額扣款，請至: <a href="{{cancel_link}}">取消定期定額扣款</a></p>
+      <p>謝謝。</p>`),
+  },
+  // Reminders escalate, the n-th reminder of a month uses reminder_n (the last one for any later reminder)
+  reminder_1: {
+    text: `
+    親愛的會員 {{member_name}} 您好:
+    提醒您，{{year}}年 {{month}}月份{{item_name}} NT$ {{amount}} 尚未繳納，繳費期限為 {{due_date}}。
+    繳交連結為: {{payment_link}}
+
+    如已繳費請忽略此信。如不希望收到繳費提醒，請回覆此信告知。
+    謝謝。
+    `,
+    html: layout(`<p>親愛的會員 {{member_name}} 您好:</p>
+      <p>提醒您，{{year}}年 {{month}}月份{{item_name}} <strong>NT$ {{amount}}</strong> 尚未繳納，繳費期限為 {{due_date}}。</p>
+      <p><a href="{{payment_link}}">前往繳費</a></p>
+      <p>如已繳費請忽略此信。如不希望收到繳費提醒，請回覆此信告知。</p>
+      <p>謝謝。</p>`),
+  },
+  reminder_2: {
+    text: `
+    親愛的會員 {{member_name}} 您好:
+    我們尚未收到您 {{year}}年 {{month}}月份{{item_name}} NT$ {{amount}} 的款項，請儘速於 {{due_date}} 前完成繳費。
+    繳交連結為: {{payment_link}}
+
+    如已繳費請忽略此信。如不希望收到繳費提醒，請回覆此信告知。
+    謝謝。
+    `,
+    html: layout(`<p>親愛的會員 {{member_name}} 您好:</p>
+      <p>我們尚未收到您 {{year}}年 {{month}}月份{{item_name}} <strong>NT$ {{amount}}</strong> 的款項，請儘速於 {{due_date}} 前完成繳費。</p>
+      <p><a href="{{payment_link}}">前往繳費</a></p>
+      <p>如已繳費請忽略此信。如不希望收到繳費提醒，請回覆此信告知。</p>
+      <p>謝謝。</p>`),
+  },
+  reminder_3: {
+    text: `
+    親愛的會員 {{member_name}} 您好:
+    最後提醒: 您的 {{year}}年 {{month}}月份{{item_name}} NT$ {{amount}} 仍未繳納，請立即完成繳費。
+    繳交連結為: {{payment_link}}
+
+    如繳費有困難，請回覆此信與工會聯繫。如已繳費請忽略此信。
+    謝謝。
+    `,
+    html: layout(`<p>親愛的會員 {{member_name}} 您好:</p>
+      <p><strong>最後提醒:</strong> 您的 {{year}}年 {{month}}月份{{item_name}} <strong>NT$ {{amount}}</strong> 仍未繳納，請立即完成繳費。</p>
+      <p><a href="{{payment_link}}">前往繳費</a></p>
+      <p>如繳費有困難，請回覆此信與工會聯繫。如已繳費請忽略此信。</p>
+      <p>謝謝。</p>`),
+  },
+};
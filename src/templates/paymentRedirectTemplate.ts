@@ -0,0 +1,52 @@
+/**
+ * Default payment redirect page, replaced by the file at PAYMENT_PAGE_TEMPLATE_PATH when set.
+ * {{name}} is HTML-escaped, {{{name}}} is inserted as-is (only used for markup built by TemplateService).
+ */
+export const paymentRedirectTemplate = `<!DOCTYPE html>
+<html lang="{{lang}}">
+   <head>
+      <meta charset="UTF-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1">
+      <title>{{title}}</title>
+   </head>
+   <body style="font-family: sans-serif;">
+      <div style="text-align: center; padding: 20px;">
+         {{{logo}}}
+         <h2>{{unionName}}</h2>
+         <h3>{{heading}}</h3>
+         <p>{{itemName}} NT$ {{amount}}</p>
+         <p>{{wait}}</p>
+      </div>
+      <form id="paymentForm" method="post" action="{{actionUrl}}">
+         {{{fields}}}
+         <div style="text-align: center; margin-top: 20px;">
+            <input type="submit" value="{{submit}}" style="padding: 10px 20px; font-size: 16px;">
+         </div>
+      </form>
+      <script>
+         window.onload = function() {
+           setTimeout(function() {
+             document.getElementById('paymentForm').submit();
+           }, 1000);
+         };
+      </script>
+   </body>
+</html>
+`;
+
+export type Locale = 'zh-TW' | 'en';
+
+export const paymentRedirectMessages: Record<Locale, Record<'title' | 'heading' | 'wait' | 'submit', string>> = {
+  'zh-TW': {
+    title: '重導向到付款頁面...',
+    heading: '正在重導向到付款頁面...',
+    wait: '請稍候...',
+    submit: '如果沒有自動跳轉，請點擊這裡',
+  },
+  en: {
+    title: 'Redirecting to payment...',
+    heading: 'Redirecting to the payment page...',
+    wait: 'Please wait...',
+    submit: 'Click here if you are not redirected automatically',
+  },
+};
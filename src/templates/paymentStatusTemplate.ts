@@ -0,0 +1,60 @@
+import { Locale } from './paymentRedirectTemplate';
+
+/**
+ * Page shown instead of a new payment form when the month needs no new trade:
+ * already paid, or an offline (ATM / CVS) payment was issued and is still payable.
+ * {{name}} is HTML-escaped, {{{name}}} is inserted as-is (only used for markup built by TemplateService).
+ */
+export const paymentStatusTemplate = `<!DOCTYPE html>
+<html lang="{{lang}}">
+   <head>
+      <meta charset="UTF-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1">
+      <title>{{title}}</title>
+   </head>
+   <body style="font-family: sans-serif;">
+      <div style="text-align: center; padding: 20px;">
+         {{{logo}}}
+         <h2>{{unionName}}</h2>
+         <h3>{{heading}}</h3>
+         <p>{{message}}</p>
+         <p style="white-space: pre-line;">{{details}}</p>
+      </div>
+   </body>
+</html>
+`;
+
+export type PaymentStatus = 'paid' | 'pending';
+
+/**
+ * message may use {{period}} (yyyy/MM) and {{date}}
+ */
+export const paymentStatusMessages: Record<
+  Locale,
+  Record<PaymentStatus, Record<'title' | 'heading' | 'message', string>>
+> = {
+  'zh-TW': {
+    paid: {
+      title: '會費已繳納',
+      heading: '本期會費已繳納',
+      message: '{{period}} 會費已於 {{date}} 繳納，無需再次付款。',
+    },
+    pending: {
+      title: '待完成繳費',
+      heading: '您已取得繳費資訊',
+      message: '請於 {{date}} 前依下列資訊完成 {{period}} 會費繳費，無需重新付款。',
+    },
+  },
+  en: {
+    paid: {
+      title: 'Dues already paid',
+      heading: 'Your dues are already paid',
+      message: 'Your dues for {{period}} were paid on {{date}}. No further payment is needed.',
+    },
+    pending: {
+      title: 'Payment pending',
+      heading: 'Your payment details were already issued',
+      message: 'Please complete your {{period}} dues payment with the details below before {{date}}.',
+    },
+  },
+};
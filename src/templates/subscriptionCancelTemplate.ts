@@ -0,0 +1,59 @@
+import { Locale } from './paymentRedirectTemplate';
+
+/**
+ * Page opened from the cancel link emailed to subscribers. The link itself changes nothing,
+ * the member confirms with the button, which posts the token back to the same URL.
+ * {{name}} is HTML-escaped, {{{name}}} is inserted as-is (only used for markup built by TemplateService).
+ */
+export const subscriptionCancelTemplate = `<!DOCTYPE html>
+<html lang="{{lang}}">
+   <head>
+      <meta charset="UTF-8">
+      <meta name="viewport" content="width=device-width, initial-scale=1">
+      <title>{{title}}</title>
+   </head>
+   <body style="font-family: sans-serif;">
+      <div style="text-align: center; padding: 20px;">
+         {{{logo}}}
+         <h2>{{unionName}}</h2>
+         <h3>{{heading}}</h3>
+         <p>{{message}}</p>
+         {{{form}}}
+      </div>
+   </body>
+</html>
+`;
+
+export type SubscriptionCancelPage = 'confirm' | 'cancelled';
+
+export const subscriptionCancelMessages: Record<
+  Locale,
+  Record<SubscriptionCancelPage, Record<'title' | 'heading' | 'message', string>> & { submit: string }
+> = {
+  'zh-TW': {
+    confirm: {
+      title: '取消定期定額扣款',
+      heading: '取消信用卡定期定額扣款',
+      message: '取消後，之後每月的會費將不再自動扣款，需以繳費連結自行繳納。',
+    },
+    cancelled: {
+      title: '已取消定期定額扣款',
+      heading: '已取消信用卡定期定額扣款',
+      message: '之後每月的會費請以繳費連結繳納。',
+    },
+    submit: '確認取消',
+  },
+  en: {
+    confirm: {
+      title: 'Cancel subscription',
+      heading: 'Cancel your credit card subscription',
+      message: 'Your dues will no longer be charged monthly, you will pay them with the payment link instead.',
+    },
+    cancelled: {
+      title: 'Subscription cancelled',
+      heading: 'Your credit card subscription is cancelled',
+      message: 'Please pay your dues with the payment link from now on.',
+    },
+    submit: 'Cancel subscription',
+  },
+};
@@ -0,0 +1,39 @@
+import config from '../configs';
+import { isAdminRequest, isAdminRoute } from '../services/adminAuth';
+
+describe('adminAuth', () => {
+  beforeEach(() => {
+    config.admin.apiKey = 'admin-key';
+  });
+
+  it.each([
+    ['POST', '/payment/refund'],
+    ['POST', '/payment/reconcile'],
+  ])('treats %s %s as an admin route', (method, path) => {
+    expect(isAdminRoute(method, path)).toBe(true);
+  });
+
+  it.each([
+    ['GET', '/payment/link'],
+    ['POST', '/payment/callback'],
+  ])('leaves %s %s open', (method, path) => {
+    expect(isAdminRoute(method, path)).toBe(false);
+  });
+
+  it('accepts the admin key in any header case', () => {
+    expect(isAdminRequest({ 'X-Api-Key': 'admin-key' })).toBe(true);
+    expect(isAdminRequest({ 'x-api-key': 'admin-key' })).toBe(true);
+  });
+
+  it('refuses a wrong or missing key', () => {
+    expect(isAdminRequest({ 'x-api-key': 'admin-kez' })).toBe(false);
+    expect(isAdminRequest({})).toBe(false);
+    expect(isAdminRequest(null)).toBe(false);
+  });
+
+  it('refuses every request while ADMIN_API_KEY is not set', () => {
+    config.admin.apiKey = '';
+
+    expect(isAdminRequest({ 'x-api-key': '' })).toBe(false);
+  });
+});
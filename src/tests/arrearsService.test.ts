@@ -0,0 +1,63 @@
+import config from '../configs';
+import { ArrearsService } from '../services/arrearsService';
+import { MemoryRepository } from '../services/memoryRepository';
+import { PaymentRecord } from '../types/repositoryTypes';
+
+const record = (memberId: string, data: Partial<PaymentRecord> = {}): PaymentRecord =>
+  ({ member_id: memberId, member_email: `${memberId}@example.com`, ...data }) as PaymentRecord;
+
+describe('ArrearsService', () => {
+  let repository: MemoryRepository;
+  let service: ArrearsService;
+
+  beforeEach(async () => {
+    config.ecpay.totalAmount = '100';
+    repository = new MemoryRepository();
+    service = new ArrearsService(repository);
+
+    await repository.addPaymentRecords('202608', [
+      record('M001', { amount_due: '200' }),
+      record('M002', { paid: 'Y', amount_due: '100' }),
+      record('M003', { member_left: 'Y', amount_due: '100' }),
+    ]);
+    await repository.addPaymentRecords('202609', [record('M001', { amount_due: '200' }), record('M002')]);
+    await repository.addPaymentRecords('202610', [record('M001', { amount_due: '200' }), record('M002')]);
+  });
+
+  it('lists unpaid months up to the given month, most owed first', async () => {
+    expect(await service.getArrears('202609')).toEqual([
+      {
+        member_id: 'M001',
+        member_email: 'M001@example.com',
+        months: [
+          { yyyymm: '202608', amount_due: 200 },
+          { yyyymm: '202609', amount_due: 200 },
+        ],
+        total: 400,
+      },
+      {
+        member_id: 'M002',
+        member_email: 'M002@example.com',
+        months: [{ yyyymm: '202609', amount_due: 100 }],
+        total: 100,
+      },
+    ]);
+  });
+
+  it('skips paid months and months after the member left', async () => {
+    const arrears = await service.getArrears('202610');
+
+    expect(arrears.map((a) => a.member_id)).toEqual(['M001', 'M002']);
+    expect(arrears[1].months.map((m) => m.yyyymm)).toEqual(['202609', '202610']);
+  });
+
+  it('charges the default dues on rows without an amount due', async () => {
+    const arrears = await service.getMemberArrears('M002', '202610');
+
+    expect(arrears?.total).toBe(200);
+  });
+
+  it('returns nothing for a member who owes nothing', async () => {
+    expect(await service.getMemberArrears('M003', '202610')).toBeUndefined();
+  });
+});
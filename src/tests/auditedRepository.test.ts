@@ -0,0 +1,183 @@
+import { runWithAuditContext } from '../services/auditContext';
+import { AuditedRepository } from '../services/auditedRepository';
+import { MemoryRepository } from '../services/memoryRepository';
+import { AuditRecord, MemberData, PaymentRecord, TradeNoRecord } from '../types/repositoryTypes';
+
+const member: MemberData = {
+  member_id: 'M001',
+  member_email: 'M001@example.com',
+  member_name: 'Lin',
+  member_phone: '',
+  join_date: '2026-01-01',
+  status: 'active',
+  dues_tier: 'regular',
+  dues_amount: '',
+  reminder_opt_out: '',
+};
+
+const trade: TradeNoRecord = {
+  merchant_trade_no: 'M0012026101a2b',
+  member_id: 'M001',
+  yyyymm: '202610',
+  issued_at: '2026-10-01T00:00:00.000Z',
+  amount: '500',
+  payment_method: 'ALL',
+  covered_months: '',
+  subscribe: '',
+  status: 'pending',
+  paid_date: '',
+};
+
+const changes = (records: AuditRecord[]) =>
+  records.map(({ entity, field, old_value, new_value, status }) => ({ entity, field, old_value, new_value, status }));
+
+describe('AuditedRepository', () => {
+  let backend: MemoryRepository;
+  let repository: AuditedRepository;
+  let addAuditRecords: jest.SpyInstance;
+
+  beforeEach(async () => {
+    backend = new MemoryRepository({ members: [member] });
+    repository = new AuditedRepository(backend);
+    await backend.addPaymentRecords('202610', [
+      { member_id: 'M001', member_email: 'M001@example.com', paid: '' } as PaymentRecord,
+    ]);
+    addAuditRecords = jest.spyOn(backend, 'addAuditRecords');
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('attributes each changed field to the request', async () => {
+    await runWithAuditContext({ requestId: 'req-1', actor: 'ecpay' }, () =>
+      repository.updatePaymentData('202610', 'M001', { paid: 'Y', paid_date: '2026/10/01 12:00:00', member_left: '' }),
+    );
+
+    const records = await repository.getAuditRecords('M001');
+    expect(records).toEqual([
+      expect.objectContaining({ request_id: 'req-1', actor: 'ecpay', yyyymm: '202610', field: 'paid', new_value: 'Y' }),
+      expect.objectContaining({ field: 'paid_date', old_value: '', new_value: '2026/10/01 12:00:00' }),
+    ]);
+    expect(records.every((r) => r.status === 'written')).toBe(true);
+  });
+
+  it('records the intent before writing and confirms it after', async () => {
+    await repository.updatePaymentData('202610', 'M001', { paid: 'Y' });
+
+    expect(addAuditRecords).toHaveBeenCalledTimes(2);
+    expect(changes(addAuditRecords.mock.calls[0][0])).toEqual([
+      { entity: 'payment', field: 'paid', old_value: '', new_value: 'Y', status: 'pending' },
+    ]);
+    expect(changes(addAuditRecords.mock.calls[1][0])).toEqual([
+      { entity: 'payment', field: 'paid', old_value: '', new_value: 'Y', status: 'written' },
+    ]);
+    expect(addAuditRecords.mock.calls[0][0][0].write_id).toBe(addAuditRecords.mock.calls[1][0][0].write_id);
+  });
+
+  it('takes the old value from the record the write read', async () => {
+    // A concurrent write lands between the read ahead of the write and the write
+    jest.spyOn(backend, 'getPaymentData').mockResolvedValueOnce({ member_id: 'M001', paid: '' } as PaymentRecord);
+    await backend.updatePaymentData('202610', 'M001', { paid: 'N' });
+
+    await repository.updatePaymentData('202610', 'M001', { paid: 'Y' });
+
+    expect(changes(await repository.getAuditRecords('M001'))).toEqual([
+      { entity: 'payment', field: 'paid', old_value: 'N', new_value: 'Y', status: 'written' },
+    ]);
+  });
+
+  it("doesn't write when the intent can't be recorded", async () => {
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+    addAuditRecords.mockRejectedValue(new Error('quota exceeded'));
+
+    const update = repository.updatePaymentData('202610', 'M001', { paid: 'Y' });
+    const failed = expect(update).rejects.toThrow('nothing changed');
+    await jest.runAllTimersAsync();
+    await failed;
+    jest.useRealTimers();
+
+    expect((await backend.getPaymentData('202610', 'M001'))?.paid).toBe('');
+  });
+
+  it('keeps a write whose confirmation fails, its intent standing for it', async () => {
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'setImmediate'] });
+    addAuditRecords
+      .mockRejectedValue(new Error('quota exceeded'))
+      .mockImplementationOnce((records: AuditRecord[]) =>
+        MemoryRepository.prototype.addAuditRecords.call(backend, records),
+      );
+
+    const update = repository.updatePaymentData('202610', 'M001', { paid: 'Y' });
+    await jest.runAllTimersAsync();
+    jest.useRealTimers();
+
+    expect(await update).toBe(true);
+    expect((await backend.getPaymentData('202610', 'M001'))?.paid).toBe('Y');
+    expect(changes(await repository.getAuditRecords('M001'))).toEqual([
+      { entity: 'payment', field: 'paid', old_value: '', new_value: 'Y', status: 'pending' },
+    ]);
+  });
+
+  it('leaves out a write whose precondition failed', async () => {
+    const written = await repository.updatePaymentData(
+      '202610',
+      'M001',
+      { paid: 'N' },
+      (current) => current.paid === 'Y',
+    );
+
+    expect(written).toBe(false);
+    expect(await repository.getAuditRecords('M001')).toEqual([]);
+    expect(addAuditRecords.mock.calls[1][0]).toEqual([expect.objectContaining({ field: '', status: 'skipped' })]);
+  });
+
+  it('shows an added record with every value it was given', async () => {
+    await repository.addPaymentRecords('202611', [
+      { member_id: 'M001', member_email: 'M001@example.com', amount_due: '500' } as PaymentRecord,
+    ]);
+
+    expect(changes(await repository.getAuditRecords('M001'))).toEqual([
+      { entity: 'payment', field: 'member_id', old_value: '', new_value: 'M001', status: 'written' },
+      { entity: 'payment', field: 'member_email', old_value: '', new_value: 'M001@example.com', status: 'written' },
+      { entity: 'payment', field: 'amount_due', old_value: '', new_value: '500', status: 'written' },
+    ]);
+  });
+
+  it('audits member, trade and subscription writes', async () => {
+    await repository.updateMember('M001', { status: 'suspended' });
+    await repository.addIssuedTradeNo(trade);
+    await repository.updateIssuedTrade(trade.merchant_trade_no, { status: 'paid' });
+    await repository.addSubscription({
+      merchant_trade_no: trade.merchant_trade_no,
+      member_id: 'M001',
+      member_email: 'M001@example.com',
+      period_amount: '500',
+      status: 'pending',
+      created_at: '2026-10-01T00:00:00.000Z',
+      cancelled_at: '',
+    });
+    await repository.updateSubscription(trade.merchant_trade_no, { status: 'active' });
+
+    const records = await repository.getAuditRecords('M001');
+    expect(changes(records.filter((r) => r.field === 'status'))).toEqual([
+      { entity: 'member', field: 'status', old_value: 'active', new_value: 'suspended', status: 'written' },
+      { entity: 'trade', field: 'status', old_value: '', new_value: 'pending', status: 'written' },
+      { entity: 'trade', field: 'status', old_value: 'pending', new_value: 'paid', status: 'written' },
+      { entity: 'subscription', field: 'status', old_value: '', new_value: 'pending', status: 'written' },
+      { entity: 'subscription', field: 'status', old_value: 'pending', new_value: 'active', status: 'written' },
+    ]);
+    expect(records.find((r) => r.entity === 'trade')).toMatchObject({
+      entity_id: 'M0012026101a2b',
+      yyyymm: '202610',
+    });
+  });
+
+  it('audits a removed member as every field cleared', async () => {
+    await repository.removeMember('M001');
+
+    expect(await repository.getAuditRecords('M001')).toContainEqual(
+      expect.objectContaining({ entity: 'member', field: 'member_name', old_value: 'Lin', new_value: '' }),
+    );
+  });
+});
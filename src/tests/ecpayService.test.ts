@@ -0,0 +1,127 @@
+import config from '../configs';
+import { ECPayService } from '../services/ecpayService';
+import { PaymentCallback } from '../types/ecpayTypes';
+
+describe('ECPayService', () => {
+  let service: ECPayService;
+
+  beforeEach(() => {
+    // Test merchant keys of ECPay's documentation
+    config.ecpay.merchantId = '3002607';
+    config.ecpay.hashKey = 'pwFHCqoQZGmho4w6';
+    config.ecpay.hashIV = 'EkRm7iFT261dpevs';
+    service = new ECPayService();
+  });
+
+  describe('generateCheckMacValue', () => {
+    const params = {
+      ChoosePayment: 'ALL',
+      EncryptType: 1,
+      ItemName: 'Apple iphone 15',
+      MerchantID: '3002607',
+      MerchantTradeDate: '2023/03/12 15:30:23',
+      MerchantTradeNo: 'ecpay20230312153023',
+      PaymentType: 'aio',
+      ReturnURL: 'https://www.ecpay.com.tw/receive.php',
+      TotalAmount: 30000,
+      TradeDesc: '促銷方案',
+    };
+
+    it("matches ECPay's documented example", () => {
+      expect(service.generateCheckMacValue(params)).toBe(
+        '6C51C9E6888DE861FD62FB1DD17029FC742634498FD813DC43D4243B5685B840',
+      );
+    });
+
+    it('does not depend on the parameter order', () => {
+      const reversed = Object.fromEntries(Object.entries(params).reverse());
+
+      expect(service.generateCheckMacValue(reversed)).toBe(service.generateCheckMacValue(params));
+    });
+  });
+
+  describe('verifyCallback', () => {
+    const callback = (): PaymentCallback => {
+      const data = {
+        MerchantID: '3002607',
+        MerchantTradeNo: 'M0012026101a2b',
+        RtnCode: '1',
+        RtnMsg: 'Succeeded',
+        TradeNo: '2610011200000001',
+        TradeAmt: '500',
+        PaymentDate: '2026/10/01 12:00:00',
+      } as unknown as PaymentCallback;
+      return { ...data, CheckMacValue: service.generateCheckMacValue(data) };
+    };
+
+    it('accepts a signed callback', () => {
+      expect(service.verifyCallback(callback())).toBe(true);
+    });
+
+    it('rejects a changed callback', () => {
+      expect(service.verifyCallback({ ...callback(), TradeAmt: '1' })).toBe(false);
+    });
+
+    it('rejects a callback without CheckMacValue', () => {
+      expect(service.verifyCallback({ ...callback(), CheckMacValue: '' })).toBe(false);
+    });
+  });
+
+  describe('creditAction', () => {
+    const respond = (body: string) =>
+      jest.spyOn(global, 'fetch').mockResolvedValue(new Response(body, { status: 200 }));
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('returns a signed response', async () => {
+      const result = {
+        MerchantID: '3002607',
+        MerchantTradeNo: 'M0012026101a2b',
+        TradeNo: '1',
+        RtnCode: '1',
+        RtnMsg: 'OK',
+      };
+      respond(new URLSearchParams({ ...result, CheckMacValue: service.generateCheckMacValue(result) }).toString());
+
+      await expect(service.creditAction('M0012026101a2b', '1', 'R', 500)).resolves.toEqual(result);
+    });
+
+    it('rejects a response without CheckMacValue', async () => {
+      respond('MerchantID=3002607&MerchantTradeNo=M0012026101a2b&TradeNo=1&RtnCode=1&RtnMsg=OK');
+
+      await expect(service.creditAction('M0012026101a2b', '1', 'R', 500)).rejects.toThrow('CheckMacValue missing');
+    });
+
+    it('rejects a response with a wrong CheckMacValue', async () => {
+      respond('MerchantID=3002607&MerchantTradeNo=M0012026101a2b&TradeNo=1&RtnCode=1&RtnMsg=OK&CheckMacValue=ABC');
+
+      await expect(service.creditAction('M0012026101a2b', '1', 'R', 500)).rejects.toThrow('CheckMacValue mismatch');
+    });
+  });
+
+  describe('merchant trade numbers', () => {
+    it('round-trips member and billing month', () => {
+      const merchantTradeNo = service.generateMerchantTradeNo('M001', '202610');
+
+      expect(merchantTradeNo).toMatch(/^M001202610[0-9a-z]{4}$/);
+      expect(service.parseMerchantTradeNo(merchantTradeNo)).toEqual({ memberId: 'M001', yyyymm: '202610' });
+    });
+
+    it('fits the longest member id in 20 characters', () => {
+      const merchantTradeNo = service.generateMerchantTradeNo('ABCDEFGHIJ', '202610');
+
+      expect(merchantTradeNo).toHaveLength(20);
+      expect(service.parseMerchantTradeNo(merchantTradeNo)).toEqual({ memberId: 'ABCDEFGHIJ', yyyymm: '202610' });
+    });
+
+    it.each(['', 'ABCDEFGHIJK', 'M-001', '會員1'])('refuses member id %p', (memberId) => {
+      expect(() => service.generateMerchantTradeNo(memberId, '202610')).toThrow('must be 1-10 alphanumeric');
+    });
+
+    it('refuses an invalid billing month', () => {
+      expect(() => service.generateMerchantTradeNo('M001', '2026-10')).toThrow('Invalid billing month');
+    });
+  });
+});
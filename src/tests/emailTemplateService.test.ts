@@ -0,0 +1,115 @@
+import { APIGatewayProxyEvent } from 'aws-lambda';
+import config from '../configs';
+import { ApiHandler } from '../handler/apiHandler';
+import { EmailTemplateService } from '../services/emailTemplateService';
+import { MemoryRepository } from '../services/memoryRepository';
+import { TemplateService } from '../services/templateService';
+import { MemberData, PaymentRecord, PaymentRepository } from '../types/repositoryTypes';
+
+const member = { member_id: 'M001', member_name: '<b>陳大文</b>', member_email: 'M001@example.com' } as MemberData;
+const record = {
+  member_id: 'M001',
+  member_email: 'M001@example.com',
+  amount_due: '500',
+  payment_link: 'live-token',
+  payment_info: '虛擬帳號: 9999999999999999',
+} as PaymentRecord;
+
+describe('EmailTemplateService', () => {
+  let repository: MemoryRepository;
+  let service: EmailTemplateService;
+
+  const createService = (emailTemplates: { name: string; subject: string; text: string; html: string }[] = []) => {
+    repository = new MemoryRepository({ members: [member], emailTemplates });
+    service = new EmailTemplateService(repository, repository, repository, new TemplateService());
+  };
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    config.mail.templateDir = '';
+    createService();
+    await repository.addPaymentRecords('202610', [record]);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('renders a member month, escaping values in the html part only', async () => {
+    const email = await service.renderForMember('payment_link', '202610', record);
+
+    expect(email.text).toContain('<b>陳大文</b>');
+    expect(email.html).toContain('&lt;b&gt;陳大文&lt;/b&gt;');
+    expect(email.text).toContain(`${config.mail.paymentPath}paymentLink=live-token`);
+  });
+
+  it('takes the wording from the sheet row and keeps the built-in parts it leaves blank', async () => {
+    createService([{ name: 'receipt', subject: '{{period}} 收據', text: '', html: '' }]);
+
+    const template = await service.getTemplate('receipt');
+    const email = service.render(template, service.mergeValues('receipt', '202610', record, member));
+
+    expect(email.subject).toBe('2026/10 收據');
+    expect(template.sources).toEqual({ subject: 'sheet', text: 'built-in', html: 'built-in' });
+  });
+
+  it('previews a member with the sample payment link and details', async () => {
+    const preview = await service.preview('payment_info', '202610', 'M001');
+
+    expect(preview?.text).toContain('陳大文');
+    expect(preview?.text).not.toContain('live-token');
+    expect(preview?.text).not.toContain('9999999999999999');
+  });
+
+  it('lists placeholders that are not merge fields', async () => {
+    createService([{ name: 'receipt', subject: 'Hi {{nickname}}', text: '', html: '' }]);
+
+    const preview = await service.preview('receipt', '202610');
+
+    expect(preview?.unknownFields).toEqual(['nickname']);
+    expect(preview?.subject).toBe('Hi');
+  });
+
+  it('previews nothing for a member without a record in the month', async () => {
+    expect(await service.preview('receipt', '202609', 'M001')).toBeUndefined();
+  });
+});
+
+describe('GET /email/preview', () => {
+  let handler: ApiHandler;
+
+  const previewEvent = (headers: Record<string, string> = {}): APIGatewayProxyEvent =>
+    ({
+      httpMethod: 'GET',
+      path: '/email/preview',
+      headers,
+      queryStringParameters: { template: 'payment_link', memberId: 'M001', yyyymm: '202610' },
+    }) as unknown as APIGatewayProxyEvent;
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    config.storage.backend = 'memory';
+    config.admin.apiKey = 'admin-key';
+    handler = new ApiHandler();
+    const repository: PaymentRepository = (handler as any).paymentRepository;
+    await repository.addPaymentRecords('202610', [record]);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('needs the admin key', async () => {
+    const response = await handler.handleGetMethod(previewEvent());
+
+    expect(response.statusCode).toBe(401);
+    expect(response.body).not.toContain('M001@example.com');
+  });
+
+  it('renders for the admin without the live payment link', async () => {
+    const response = await handler.handleGetMethod(previewEvent({ 'x-api-key': 'admin-key' }));
+
+    expect(response.statusCode).toBe(200);
+    expect(response.body).not.toContain('live-token');
+  });
+});
@@ -0,0 +1,331 @@
+import { GoogleSheetsService } from '../services/googleSheetService';
+import {
+  LEDGER_FIELDS,
+  LedgerRecord,
+  PAYMENT_RECORD_FIELDS,
+  PaymentRecord,
+  SUBSCRIPTION_FIELDS,
+  TRADE_NO_FIELDS,
+  TradeNoRecord,
+} from '../types/repositoryTypes';
+import { LEDGER_SHEET_TITLE, SUBSCRIPTION_SHEET_TITLE, TRADE_NO_SHEET_TITLE } from '../services/sheetSchemas';
+
+type FakeCell = { rowIndex: number; columnIndex: number; value: string | null };
+
+/**
+ * In-memory stand-in for a google-spreadsheet worksheet: rows below the header row, cells loaded by range
+ */
+class FakeSheet {
+  rowCount = 1000;
+  columnCount = 30;
+  rows: Record<string, string>[] = [];
+  private cells = new Map<string, FakeCell>();
+
+  constructor(
+    public sheetId: number,
+    public title: string,
+    public headerValues: string[],
+  ) {}
+
+  async loadHeaderRow() {}
+
+  async setHeaderRow(headerValues: string[]) {
+    this.headerValues = headerValues;
+  }
+
+  async resize() {}
+
+  async getRows() {
+    return this.rows.map((row, i) => ({
+      rowNumber: i + 2,
+      get: (field: string) => row[field] ?? '',
+      delete: async () => {
+        this.rows.splice(this.rows.indexOf(row), 1);
+      },
+    }));
+  }
+
+  async addRow(values: Record<string, string>) {
+    this.rows.push({ ...values });
+    return { rowNumber: this.rows.length + 1 };
+  }
+
+  async addRows(values: Record<string, string>[]) {
+    for (const value of values) await this.addRow(value);
+  }
+
+  async loadCells(range: { startRowIndex: number; endRowIndex: number }) {
+    this.cells.clear();
+    for (let rowIndex = range.startRowIndex; rowIndex < range.endRowIndex; rowIndex++) {
+      this.headerValues.forEach((field, columnIndex) => {
+        const value = this.rows[rowIndex - 1]?.[field];
+        this.cells.set(`${rowIndex}:${columnIndex}`, { rowIndex, columnIndex, value: value || null });
+      });
+    }
+  }
+
+  getCell(rowIndex: number, columnIndex: number) {
+    const cell = this.cells.get(`${rowIndex}:${columnIndex}`);
+    if (!cell) throw new Error(`cell ${rowIndex}:${columnIndex} not loaded`);
+    return cell;
+  }
+
+  async saveCells(cells: FakeCell[]) {
+    for (const cell of cells) {
+      this.rows[cell.rowIndex - 1][this.headerValues[cell.columnIndex]] = cell.value ?? '';
+    }
+  }
+}
+
+function createService(...sheets: FakeSheet[]): GoogleSheetsService {
+  const service = new GoogleSheetsService('spreadsheet-id', {});
+  (service as any).doc = {
+    title: 'test',
+    sheetCount: sheets.length,
+    sheetsByTitle: Object.fromEntries(sheets.map((sheet) => [sheet.title, sheet])),
+    loadInfo: async () => {},
+  };
+  return service;
+}
+
+describe('GoogleSheetsService row writes', () => {
+  let monthSheet: FakeSheet;
+  let service: GoogleSheetsService;
+
+  beforeEach(() => {
+    monthSheet = new FakeSheet(1, '202610', [...PAYMENT_RECORD_FIELDS]);
+    monthSheet.rows = [
+      { member_id: 'M001', member_email: 'M001@example.com', paid: 'N' },
+      { member_id: 'M002', member_email: 'M002@example.com', paid: 'Y' },
+    ];
+    service = createService(monthSheet);
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('updatePaymentData', () => {
+    it('writes only the cells that change', async () => {
+      const saveCells = jest.spyOn(monthSheet, 'saveCells');
+
+      const updated = await service.updatePaymentData('202610', 'M002', { paid: 'Y', unique_payment_link: 'T1' });
+
+      expect(updated).toBe(true);
+      expect(saveCells).toHaveBeenCalledTimes(1);
+      expect(saveCells.mock.calls[0][0].map((cell) => monthSheet.headerValues[cell.columnIndex])).toEqual([
+        'unique_payment_link',
+      ]);
+      expect(monthSheet.rows[1]).toMatchObject({ paid: 'Y', unique_payment_link: 'T1' });
+    });
+
+    it('checks the precondition on the row as read right before writing', async () => {
+      const loadCells = monthSheet.loadCells.bind(monthSheet);
+      jest.spyOn(monthSheet, 'loadCells').mockImplementationOnce(async (range) => {
+        // A callback marks the month paid between the row lookup and the write
+        monthSheet.rows[0].paid = 'Y';
+        await loadCells(range);
+      });
+      const saveCells = jest.spyOn(monthSheet, 'saveCells');
+
+      const updated = await service.updatePaymentData(
+        '202610',
+        'M001',
+        { paid: 'N', unique_payment_link: 'T1' },
+        (current) => current.paid !== 'Y',
+      );
+
+      expect(updated).toBe(false);
+      expect(saveCells).not.toHaveBeenCalled();
+      expect(monthSheet.rows[0]).toMatchObject({ paid: 'Y' });
+    });
+
+    it('writes again when a racing write replaced its values', async () => {
+      const saveCells = monthSheet.saveCells.bind(monthSheet);
+      const spy = jest.spyOn(monthSheet, 'saveCells').mockImplementationOnce(async (cells) => {
+        await saveCells(cells);
+        monthSheet.rows[0].unique_payment_link = 'OTHER';
+      });
+
+      const updated = await service.updatePaymentData('202610', 'M001', { unique_payment_link: 'T1' });
+
+      expect(updated).toBe(true);
+      expect(spy).toHaveBeenCalledTimes(2);
+      expect(monthSheet.rows[0].unique_payment_link).toBe('T1');
+    });
+
+    it('throws when the member has no row', async () => {
+      await expect(service.updatePaymentData('202610', 'M999', { paid: 'Y' })).rejects.toThrow(
+        'member:M999 not found in sheet:202610',
+      );
+    });
+  });
+
+  describe('updatePaymentDataBatch', () => {
+    it('writes the changed cells in one request and reports members without a row', async () => {
+      const saveCells = jest.spyOn(monthSheet, 'saveCells');
+      const read: PaymentRecord[] = [];
+
+      const result = await service.updatePaymentDataBatch(
+        '202610',
+        ['M001', 'M999', 'M002'],
+        [{ payment_link_sent: 'Y' }, { payment_link_sent: 'Y' }, { payment_link_sent: 'Y', paid: 'Y' }],
+        (current) => read.push(current),
+      );
+
+      expect(result).toEqual({ updated: ['M001', 'M002'], notFound: ['M999'] });
+      expect(saveCells).toHaveBeenCalledTimes(1);
+      expect(saveCells.mock.calls[0][0]).toHaveLength(2);
+      expect(read.map((record) => [record.member_id, record.paid])).toEqual([
+        ['M001', 'N'],
+        ['M002', 'Y'],
+      ]);
+      expect(monthSheet.rows.map((row) => row.payment_link_sent)).toEqual(['Y', 'Y']);
+    });
+
+    it('writes rows that moved since they were looked up on their own', async () => {
+      const loadCells = monthSheet.loadCells.bind(monthSheet);
+      jest.spyOn(monthSheet, 'loadCells').mockImplementationOnce(async (range) => {
+        // M001's row is deleted concurrently, M002 moves up a row
+        monthSheet.rows.splice(0, 1);
+        await loadCells(range);
+      });
+
+      const result = await service.updatePaymentDataBatch(
+        '202610',
+        ['M001', 'M002'],
+        [{ payment_link_sent: 'Y' }, { payment_link_sent: 'Y' }],
+      );
+
+      expect(result).toEqual({ updated: ['M002'], notFound: ['M001'] });
+      expect(monthSheet.rows).toEqual([expect.objectContaining({ member_id: 'M002', payment_link_sent: 'Y' })]);
+    });
+  });
+
+  describe('upsertPaymentData', () => {
+    it('appends a row for a member without one', async () => {
+      const read: (PaymentRecord | undefined)[] = [];
+
+      await service.upsertPaymentData('202610', 'M003', 'M003@example.com', { paid: 'Y' }, (current) =>
+        read.push(current),
+      );
+
+      expect(read).toEqual([undefined]);
+      expect(monthSheet.rows).toHaveLength(3);
+      expect(monthSheet.rows[2]).toMatchObject({ member_id: 'M003', member_email: 'M003@example.com', paid: 'Y' });
+    });
+
+    it('keeps the first row when another upsert appended the member concurrently', async () => {
+      const addRow = monthSheet.addRow.bind(monthSheet);
+      jest.spyOn(monthSheet, 'addRow').mockImplementationOnce(async (values) => {
+        await addRow({ member_id: 'M003', member_email: 'M003@example.com', paid: 'N', unique_payment_link: 'T0' });
+        return addRow(values);
+      });
+      const read: (PaymentRecord | undefined)[] = [];
+
+      await service.upsertPaymentData('202610', 'M003', 'M003@example.com', { paid: 'Y' }, (current) =>
+        read.push(current),
+      );
+
+      const memberRows = monthSheet.rows.filter((row) => row.member_id === 'M003');
+      expect(memberRows).toEqual([expect.objectContaining({ paid: 'Y', unique_payment_link: 'T0' })]);
+      expect(read[read.length - 1]).toMatchObject({ member_id: 'M003', paid: 'N' });
+    });
+
+    it('updates the existing row in place', async () => {
+      await service.upsertPaymentData('202610', 'M001', 'M001@example.com', { paid: 'Y' });
+
+      expect(monthSheet.rows).toHaveLength(2);
+      expect(monthSheet.rows[0]).toMatchObject({ member_id: 'M001', paid: 'Y' });
+    });
+  });
+
+  describe('trades and subscriptions', () => {
+    let tradeSheet: FakeSheet;
+    let subscriptionSheet: FakeSheet;
+
+    beforeEach(() => {
+      tradeSheet = new FakeSheet(2, TRADE_NO_SHEET_TITLE, [...TRADE_NO_FIELDS]);
+      tradeSheet.rows = [{ merchant_trade_no: 'T1', member_id: 'M001', yyyymm: '202610', status: 'pending' }];
+      subscriptionSheet = new FakeSheet(3, SUBSCRIPTION_SHEET_TITLE, [...SUBSCRIPTION_FIELDS]);
+      service = createService(monthSheet, tradeSheet, subscriptionSheet);
+    });
+
+    it('updates an issued trade cell by cell and reports what it read', async () => {
+      const saveCells = jest.spyOn(tradeSheet, 'saveCells');
+      const read: TradeNoRecord[] = [];
+
+      await service.updateIssuedTrade('T1', { status: 'paid', paid_date: '2026/10/05' }, (current) =>
+        read.push(current),
+      );
+
+      expect(read).toEqual([expect.objectContaining({ merchant_trade_no: 'T1', status: 'pending' })]);
+      expect(saveCells.mock.calls[0][0]).toHaveLength(2);
+      expect(tradeSheet.rows[0]).toMatchObject({ member_id: 'M001', status: 'paid', paid_date: '2026/10/05' });
+    });
+
+    it('throws for an unknown subscription', async () => {
+      await expect(service.updateSubscription('T9', { status: 'cancelled' })).rejects.toThrow(
+        'subscription:T9 not found',
+      );
+    });
+  });
+});
+
+describe('GoogleSheetsService metadata', () => {
+  let monthSheet: FakeSheet;
+  let service: GoogleSheetsService;
+  let doc: any;
+
+  beforeEach(() => {
+    monthSheet = new FakeSheet(1, '202610', [...PAYMENT_RECORD_FIELDS]);
+    service = createService(monthSheet);
+    doc = (service as any).doc;
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('validates header rows again after a metadata refresh', async () => {
+    const loadHeaderRow = jest.spyOn(monthSheet, 'loadHeaderRow');
+
+    await service.getPaymentData('202610', 'M001');
+    await service.getPaymentData('202610', 'M001');
+    expect(loadHeaderRow).toHaveBeenCalledTimes(1);
+
+    await service.initialize(true);
+    await service.getPaymentData('202610', 'M001');
+    expect(loadHeaderRow).toHaveBeenCalledTimes(2);
+  });
+
+  it('uses a sheet another instance created since the metadata was loaded', async () => {
+    const ledgerSheet = new FakeSheet(2, LEDGER_SHEET_TITLE, [...LEDGER_FIELDS]);
+    await service.initialize();
+    doc.addSheet = jest.fn(async ({ title }: { title: string }) => {
+      throw new Error(`A sheet with the name "${title}" already exists. Please enter another name.`);
+    });
+    doc.loadInfo = jest.fn(async () => {
+      doc.sheetsByTitle[LEDGER_SHEET_TITLE] = ledgerSheet;
+    });
+
+    await service.addLedgerRecord({ merchant_trade_no: 'T1', member_id: 'M001' } as LedgerRecord);
+
+    expect(doc.loadInfo).toHaveBeenCalledTimes(1);
+    expect(ledgerSheet.rows).toEqual([expect.objectContaining({ merchant_trade_no: 'T1', member_id: 'M001' })]);
+  });
+
+  it('throws other errors creating a sheet', async () => {
+    doc.addSheet = jest.fn(async () => {
+      throw new Error('quota exceeded');
+    });
+
+    await expect(service.upsertPaymentData('202611', 'M001', 'M001@example.com', { paid: 'Y' })).rejects.toThrow(
+      'quota exceeded',
+    );
+  });
+});
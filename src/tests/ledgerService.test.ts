@@ -0,0 +1,150 @@
+import { ECPayService } from '../services/ecpayService';
+import { LedgerService } from '../services/ledgerService';
+import { MemoryRepository } from '../services/memoryRepository';
+import { QueryTradeInfo } from '../types/ecpayTypes';
+import { PaymentRecord } from '../types/repositoryTypes';
+
+const tradeInfo = (data: Partial<QueryTradeInfo> = {}) =>
+  ({
+    TradeNo: '2610011200000001',
+    PaymentType: 'Credit_CreditCard',
+    HandlingCharge: '15',
+    PaymentTypeChargeFee: '12',
+    ...data,
+  }) as QueryTradeInfo;
+
+describe('LedgerService', () => {
+  let repository: MemoryRepository;
+  let queryECPay: jest.Mock;
+  let service: LedgerService;
+
+  const payment = { paymentDate: '2026/10/01 12:00:00', amount: 500 };
+
+  beforeEach(() => {
+    repository = new MemoryRepository();
+    queryECPay = jest.fn().mockResolvedValue(tradeInfo());
+    service = new LedgerService(repository, { queryECPay } as unknown as ECPayService);
+  });
+
+  describe('recordPayment', () => {
+    it("records ECPay's total fee", async () => {
+      expect(await service.recordPayment('202610', 'M001', 'M0012026101a2b', payment)).toBe(true);
+
+      expect(await repository.getLedgerRecords()).toEqual([
+        expect.objectContaining({
+          merchant_trade_no: 'M0012026101a2b',
+          trade_no: '2610011200000001',
+          gross_amount: '500',
+          fee: '15',
+          net_amount: '485',
+          entry_type: 'payment',
+        }),
+      ]);
+    });
+
+    it('records a replayed payment once', async () => {
+      await service.recordPayment('202610', 'M001', 'M0012026101a2b', payment);
+      await service.recordPayment('202610', 'M001', 'M0012026101a2b', payment);
+
+      expect(await repository.getLedgerRecords()).toHaveLength(1);
+    });
+
+    it('reports a failed fee lookup instead of throwing', async () => {
+      queryECPay.mockRejectedValue(new Error('ECPay unavailable'));
+
+      expect(await service.recordPayment('202610', 'M001', 'M0012026101a2b', payment)).toBe(false);
+      expect(await repository.getLedgerRecords()).toEqual([]);
+    });
+  });
+
+  describe('backfillPayments', () => {
+    const paid = (memberId: string, data: Partial<PaymentRecord> = {}) =>
+      ({
+        member_id: memberId,
+        paid: 'Y',
+        paid_date: '2026/10/01 12:00:00',
+        paid_amount: '500',
+        unique_payment_link: `${memberId}2026101a2b`,
+        ...data,
+      }) as PaymentRecord;
+
+    it('records the paid trades missing from the ledger', async () => {
+      await service.recordPayment('202610', 'M001', 'M0012026101a2b', payment);
+
+      const recorded = await service.backfillPayments('202610', [
+        paid('M001'),
+        paid('M002'),
+        paid('M003', { paid_amount: '' }),
+        paid('M004', { unique_payment_link: '' }),
+      ]);
+
+      expect(recorded).toEqual(['M0022026101a2b']);
+      expect((await repository.getLedgerRecords()).map((r) => r.merchant_trade_no)).toEqual([
+        'M0012026101a2b',
+        'M0022026101a2b',
+      ]);
+    });
+
+    it('leaves a trade it still cannot record for the next run', async () => {
+      queryECPay.mockRejectedValue(new Error('ECPay unavailable'));
+
+      expect(await service.backfillPayments('202610', [paid('M001')])).toEqual([]);
+    });
+  });
+
+  describe('recordRefund', () => {
+    beforeEach(async () => {
+      await service.recordPayment('202610', 'M001', 'M0012026101a2b', payment);
+    });
+
+    it('records a refund as a negative entry, ECPay keeping the fee', async () => {
+      await service.recordRefund('202610', 'M001', 'M0012026101a2b', { type: 'refund', amount: 200 });
+
+      expect((await repository.getLedgerRecords())[1]).toMatchObject({
+        trade_no: '2610011200000001',
+        gross_amount: '-200',
+        fee: '0',
+        net_amount: '-200',
+        entry_type: 'refund',
+      });
+    });
+
+    it('reverses the fee of a cancelled authorization', async () => {
+      await service.recordRefund('202610', 'M001', 'M0012026101a2b', { type: 'cancel', amount: 500 });
+      await service.recordRefund('202610', 'M001', 'M0012026101a2b', { type: 'cancel', amount: 500 });
+
+      const records = await repository.getLedgerRecords();
+      expect(records).toHaveLength(2);
+      expect(records[1]).toMatchObject({ gross_amount: '-500', fee: '-15', net_amount: '-485' });
+    });
+  });
+
+  describe('month reports', () => {
+    beforeEach(async () => {
+      await service.recordPayment('202610', 'M001', 'M0012026101a2b', payment);
+      queryECPay.mockResolvedValue(tradeInfo({ PaymentType: 'ATM_LAND', HandlingCharge: '', TradeNo: '=1+1' }));
+      await service.recordPayment('202610', 'M002', 'M0022026101a2b', payment);
+      await service.recordRefund('202610', 'M001', 'M0012026101a2b', { type: 'refund', amount: 500 });
+      queryECPay.mockResolvedValue(tradeInfo());
+      await service.recordPayment('202609', 'M003', 'M0032026091a2b', {
+        ...payment,
+        paymentDate: '2026/09/30 12:00:00',
+      });
+    });
+
+    it('sums the payments received in the month less its refunds', async () => {
+      const summary = await service.summarizeMonth('202610');
+
+      expect(summary.total).toEqual({ count: 2, gross: 500, fees: 27, net: 473, refunds: 500 });
+      expect(summary.byPaymentType.ATM_LAND).toEqual({ count: 1, gross: 500, fees: 12, net: 488, refunds: 0 });
+    });
+
+    it('exports formula-like text as text and negative amounts as numbers', async () => {
+      const lines = (await service.exportMonth('202610')).split('\r\n');
+
+      expect(lines).toHaveLength(5);
+      expect(lines[2]).toContain(",'=1+1,");
+      expect(lines[3]).toContain(',-500,0,-500,refund');
+    });
+  });
+});
@@ -0,0 +1,98 @@
+import { MemberService } from '../services/memberService';
+import { MemoryRepository } from '../services/memoryRepository';
+import { MemberData } from '../types/repositoryTypes';
+
+describe('MemberService', () => {
+  let repository: MemoryRepository;
+  let service: MemberService;
+
+  const input = (data: Partial<MemberData> = {}): Partial<MemberData> => ({
+    member_id: 'M001',
+    member_email: 'm001@example.com',
+    member_name: 'Lin',
+    ...data,
+  });
+
+  beforeEach(() => {
+    repository = new MemoryRepository({
+      duesTiers: new Map([['regular', { amount: 500, item_name: 'Regular dues' }]]),
+    });
+    service = new MemberService(repository);
+  });
+
+  describe('createMember', () => {
+    it('creates an active member with trimmed fields', async () => {
+      const result = await service.createMember(input({ member_email: ' m001@example.com ', dues_tier: 'regular' }));
+
+      expect(result).toMatchObject({ success: true, member: { member_email: 'm001@example.com', status: 'active' } });
+      expect(await service.listMembers('active')).toHaveLength(1);
+    });
+
+    it.each<[string, Partial<MemberData>]>([
+      ['member_id', { member_id: 'M-001' }],
+      ['member_name', { member_name: ' ' }],
+      ['member_email', { member_email: 'not an email' }],
+      ['member_phone', { member_phone: 'call me' }],
+      ['join_date', { join_date: '2026-13-01' }],
+      ['dues_amount', { dues_amount: '-1' }],
+      ['dues_tier', { dues_tier: 'gold' }],
+    ])('refuses an invalid %s', async (field, data) => {
+      const result = await service.createMember(input(data));
+
+      expect(result).toMatchObject({ success: false, reason: 'invalid', message: expect.stringContaining(field) });
+      expect(await repository.getAllMembers()).toEqual([]);
+    });
+
+    it('refuses a member id or email already in use', async () => {
+      await service.createMember(input());
+
+      expect(await service.createMember(input({ member_email: 'other@example.com' }))).toMatchObject({
+        reason: 'duplicate',
+      });
+      expect(await service.createMember(input({ member_id: 'M002', member_email: 'M001@Example.com' }))).toMatchObject({
+        reason: 'duplicate',
+        message: 'member_email M001@Example.com is used by member M001',
+      });
+    });
+  });
+
+  describe('updateMember', () => {
+    beforeEach(async () => {
+      await service.createMember(input());
+      await service.createMember(input({ member_id: 'M002', member_email: 'm002@example.com' }));
+    });
+
+    it('changes only the given fields', async () => {
+      const result = await service.updateMember('M001', { member_phone: '02-1234-5678' });
+
+      expect(result.success).toBe(true);
+      expect((await service.listMembers()).find((m) => m.member_id === 'M001')).toMatchObject({
+        member_name: 'Lin',
+        member_phone: '02-1234-5678',
+      });
+    });
+
+    it("refuses another member's email", async () => {
+      expect(await service.updateMember('M001', { member_email: 'm002@example.com' })).toMatchObject({
+        reason: 'duplicate',
+      });
+    });
+
+    it('suspends a member, who is no longer listed as active', async () => {
+      await service.suspendMember('M001');
+
+      expect((await service.listMembers('active')).map((m) => m.member_id)).toEqual(['M002']);
+      expect((await service.listMembers('suspended')).map((m) => m.member_id)).toEqual(['M001']);
+    });
+
+    it('reports an unknown member', async () => {
+      expect(await service.updateMember('M999', { member_name: 'X' })).toMatchObject({ reason: 'not_found' });
+      expect(await service.removeMember('M999')).toMatchObject({ reason: 'not_found' });
+    });
+
+    it('removes a member', async () => {
+      expect((await service.removeMember('M002')).success).toBe(true);
+      expect((await service.listMembers()).map((m) => m.member_id)).toEqual(['M001']);
+    });
+  });
+});
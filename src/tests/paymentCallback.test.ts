@@ -0,0 +1,107 @@
+import { APIGatewayProxyEvent } from 'aws-lambda';
+import config from '../configs';
+import { ApiHandler } from '../handler/apiHandler';
+import { ECPayService } from '../services/ecpayService';
+import { EmailService } from '../services/emailService';
+import { PaymentRecord, PaymentRepository } from '../types/repositoryTypes';
+
+const callbackEvent = (data: Record<string, string>): APIGatewayProxyEvent =>
+  ({
+    httpMethod: 'POST',
+    path: '/payment/callback',
+    headers: {},
+    body: new URLSearchParams(data).toString(),
+  }) as unknown as APIGatewayProxyEvent;
+
+describe('ECPay ReturnURL callback', () => {
+  let handler: ApiHandler;
+  let repository: PaymentRepository;
+  let ecPayService: ECPayService;
+
+  const signedCallback = ({ CheckMacValue, ...data }: Record<string, string>) => ({
+    ...data,
+    CheckMacValue: ecPayService.generateCheckMacValue(data),
+  });
+  const paidCallback = () =>
+    signedCallback({
+      MerchantID: '3002607',
+      MerchantTradeNo: 'M0012026101a2b',
+      RtnCode: '1',
+      RtnMsg: 'Succeeded',
+      TradeNo: '2610011200000001',
+      TradeAmt: '500',
+      PaymentDate: '2026/10/01 12:00:00',
+      PaymentType: 'Credit_CreditCard',
+    });
+
+  beforeEach(async () => {
+    config.storage.backend = 'memory';
+    config.ecpay.hashKey = 'pwFHCqoQZGmho4w6';
+    config.ecpay.hashIV = 'EkRm7iFT261dpevs';
+    jest
+      .spyOn(EmailService.prototype, 'sendEmail')
+      .mockResolvedValue({ totalEmails: 1, successCount: 1, failureCount: 0, results: [] });
+    jest.spyOn(ECPayService.prototype, 'queryECPay').mockRejectedValue(new Error('no network in tests'));
+
+    handler = new ApiHandler();
+    repository = (handler as any).paymentRepository;
+    ecPayService = new ECPayService();
+    await repository.addPaymentRecords('202610', [
+      {
+        member_id: 'M001',
+        member_email: 'M001@example.com',
+        unique_payment_link: 'M0012026101a2b',
+        amount_due: '500',
+      } as PaymentRecord,
+    ]);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('marks the month paid and acknowledges with 1|OK', async () => {
+    const response = await handler.handlePaymentCallback(callbackEvent(paidCallback()));
+
+    expect(response).toMatchObject({ statusCode: 200, body: '1|OK' });
+    expect(await repository.getPaymentData('202610', 'M001')).toMatchObject({
+      paid: 'Y',
+      paid_date: '2026/10/01 12:00:00',
+      paid_amount: '500',
+    });
+  });
+
+  it('rejects a forged callback without writing', async () => {
+    const response = await handler.handlePaymentCallback(callbackEvent({ ...paidCallback(), TradeAmt: '1' }));
+
+    expect(response).toMatchObject({ statusCode: 400, body: '0|CheckMacValue Error' });
+    expect((await repository.getPaymentData('202610', 'M001'))?.paid).not.toBe('Y');
+  });
+
+  it('acknowledges a failed payment without marking the month paid', async () => {
+    const response = await handler.handlePaymentCallback(
+      callbackEvent(signedCallback({ ...paidCallback(), RtnCode: '10100058', RtnMsg: 'Failed' })),
+    );
+
+    expect(response).toMatchObject({ statusCode: 200, body: '1|OK' });
+    expect((await repository.getPaymentData('202610', 'M001'))?.paid).not.toBe('Y');
+  });
+
+  it('acknowledges a replayed notification without writing again', async () => {
+    await handler.handlePaymentCallback(callbackEvent(paidCallback()));
+    const update = jest.spyOn(repository, 'updatePaymentData');
+
+    const response = await handler.handlePaymentCallback(callbackEvent(paidCallback()));
+
+    expect(response).toMatchObject({ statusCode: 200, body: '1|OK' });
+    expect(update).not.toHaveBeenCalled();
+  });
+
+  it('answers 404 for a trade of an unknown member', async () => {
+    const response = await handler.handlePaymentCallback(
+      callbackEvent(signedCallback({ ...paidCallback(), MerchantTradeNo: 'M9992026101a2b' })),
+    );
+
+    expect(response.statusCode).toBe(404);
+  });
+});
@@ -0,0 +1,143 @@
+import config from '../configs';
+import { ApiHandler } from '../handler/apiHandler';
+import { ECPayService } from '../services/ecpayService';
+import { CreatePaymentParams, QueryTradeInfo } from '../types/ecpayTypes';
+import { PaymentRecord, PaymentRepository } from '../types/repositoryTypes';
+
+describe('payment link', () => {
+  let handler: ApiHandler;
+  let repository: PaymentRepository;
+  let createPaymentForm: jest.SpyInstance;
+
+  const openLink = (memberId = 'M001', options: Parameters<ApiHandler['getUniquePaymentLink']>[1] = {}) =>
+    handler.getUniquePaymentLink({ memberId, yyyymm: '202610', amount: 500, expiresAt: 0 }, options);
+
+  beforeEach(async () => {
+    config.storage.backend = 'memory';
+    createPaymentForm = jest
+      .spyOn(ECPayService.prototype, 'createPaymentForm')
+      .mockImplementation(async (params: CreatePaymentParams) => ({
+        redirectUrl: params.merchantTradeNo,
+        tradeNo: params.merchantTradeNo,
+      }));
+
+    handler = new ApiHandler();
+    repository = (handler as any).paymentRepository;
+    await repository.addPaymentRecords('202610', [
+      { member_id: 'M001', member_email: 'M001@example.com', amount_due: '500' } as PaymentRecord,
+      { member_id: 'M-001', member_email: 'M-001@example.com', amount_due: '500' } as PaymentRecord,
+    ]);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('trade numbers', () => {
+    it('issues a registered trade number and puts it on the row', async () => {
+      const response = await openLink();
+
+      const [trade] = await repository.getIssuedTrades('M001', '202610');
+      expect(response.body).toBe(trade.merchant_trade_no);
+      expect(trade).toMatchObject({ member_id: 'M001', yyyymm: '202610', amount: '500', status: 'pending' });
+      expect((await repository.getPaymentData('202610', 'M001'))?.unique_payment_link).toBe(trade.merchant_trade_no);
+    });
+
+    it("draws again when the number is one of the month's trades", async () => {
+      await repository.addIssuedTradeNo({
+        merchant_trade_no: 'M0012026100000',
+        member_id: 'M001',
+        yyyymm: '202610',
+        issued_at: '',
+        amount: '1000',
+        payment_method: 'ALL',
+        covered_months: '',
+        subscribe: '',
+        status: 'paid',
+        paid_date: '',
+      });
+      jest
+        .spyOn(ECPayService.prototype, 'generateMerchantTradeNo')
+        .mockReturnValueOnce('M0012026100000')
+        .mockReturnValueOnce('M0012026100001');
+
+      const response = await openLink();
+
+      expect(response.body).toBe('M0012026100001');
+    });
+
+    it("refuses a member id that can't be part of a trade number", async () => {
+      const response = await openLink('M-001');
+
+      expect(response.statusCode).toBe(422);
+      expect(createPaymentForm).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('trade reuse', () => {
+    let queryECPay: jest.SpyInstance;
+
+    const queryResult = (TradeStatus: string) =>
+      ({ TradeStatus, TradeAmt: '500', PaymentDate: '2026/10/01 12:00:00' }) as QueryTradeInfo;
+
+    beforeEach(() => {
+      queryECPay = jest.spyOn(ECPayService.prototype, 'queryECPay').mockResolvedValue(queryResult('10200047'));
+    });
+
+    it('reuses the number of a form ECPay never received', async () => {
+      const first = await openLink();
+      const second = await openLink();
+
+      expect(second.body).toBe(first.body);
+      expect(queryECPay).toHaveBeenCalledWith(first.body);
+      expect(await repository.getIssuedTrades('M001', '202610')).toHaveLength(1);
+    });
+
+    it('issues a new number when the form changed', async () => {
+      const first = await openLink();
+      const second = await openLink('M001', { choosePayment: 'ATM' });
+
+      expect(second.body).not.toBe(first.body);
+      expect(await repository.getIssuedTrades('M001', '202610')).toHaveLength(2);
+    });
+
+    it('issues a new number when ECPay already created the trade', async () => {
+      queryECPay.mockResolvedValue(queryResult('0'));
+
+      const first = await openLink();
+      const second = await openLink();
+
+      expect(second.body).not.toBe(first.body);
+    });
+
+    it('shows the pending offline payment instead of a new form', async () => {
+      const first = await openLink();
+      await repository.updatePaymentData('202610', 'M001', {
+        payment_info: 'ATM 822 0123456789',
+        payment_expire_date: '2999/12/31',
+      });
+      createPaymentForm.mockClear();
+
+      const second = await openLink();
+
+      expect(second.body).toContain('ATM 822 0123456789');
+      expect(createPaymentForm).not.toHaveBeenCalled();
+      expect(queryECPay).not.toHaveBeenCalledWith(first.body);
+    });
+
+    it('records a payment whose notification was lost', async () => {
+      const first = await openLink();
+      queryECPay.mockResolvedValue(queryResult('1'));
+      createPaymentForm.mockClear();
+
+      await openLink();
+
+      expect(createPaymentForm).not.toHaveBeenCalled();
+      expect(await repository.getPaymentData('202610', 'M001')).toMatchObject({
+        paid: 'Y',
+        unique_payment_link: first.body,
+      });
+      expect((await repository.getIssuedTrades('M001', '202610'))[0].status).toBe('paid');
+    });
+  });
+});
@@ -0,0 +1,89 @@
+import config from '../configs';
+import { MemoryRepository } from '../services/memoryRepository';
+import { PaymentLinkService } from '../services/paymentLinkService';
+import { PaymentLinkTokenService } from '../services/paymentLinkTokenService';
+import { MemberData } from '../types/repositoryTypes';
+
+const member = (memberId: string, data: Partial<MemberData> = {}): MemberData => ({
+  member_id: memberId,
+  member_email: `${memberId}@example.com`,
+  member_name: '',
+  member_phone: '',
+  join_date: '2026-01-01',
+  status: 'active',
+  dues_tier: 'regular',
+  dues_amount: '',
+  reminder_opt_out: '',
+  ...data,
+});
+
+describe('PaymentLinkService', () => {
+  let repository: MemoryRepository;
+  let tokens: PaymentLinkTokenService;
+  let service: PaymentLinkService;
+
+  beforeEach(() => {
+    config.paymentLink.secret = 'test-secret';
+    config.ecpay.totalAmount = '300';
+    repository = new MemoryRepository({
+      members: [member('M001'), member('M002', { dues_amount: '200' }), member('M003', { dues_tier: 'unknown' })],
+      duesTiers: new Map([['regular', { amount: 500, item_name: 'Regular dues' }]]),
+    });
+    tokens = new PaymentLinkTokenService();
+    service = new PaymentLinkService(repository, repository, tokens);
+  });
+
+  it("signs each active member's link for their dues", async () => {
+    const summary = await service.generatePaymentLinks('202610');
+
+    expect(summary.added).toEqual(['M001', 'M002', 'M003']);
+    const records = await repository.getAllPaymentDatas('202610');
+    expect(records.map((r) => r.amount_due)).toEqual(['500', '200', '300']);
+    expect(records[0]).toMatchObject({ item_name: 'Regular dues', payment_link_sent: 'N' });
+    expect(tokens.verify(records[1].payment_link!).payload).toMatchObject({ memberId: 'M002', amount: 200 });
+  });
+
+  it('only adds members without a record when run again', async () => {
+    await service.generatePaymentLinks('202610');
+    await repository.addMember(member('M004'));
+
+    const summary = await service.generatePaymentLinks('202610');
+
+    expect(summary).toMatchObject({ added: ['M004'], skipped: ['M001', 'M002', 'M003'] });
+    expect(await repository.getAllPaymentDatas('202610')).toHaveLength(4);
+  });
+
+  it('flags members who left and clears the flag of those who came back', async () => {
+    await service.generatePaymentLinks('202610');
+    await repository.updateMember('M001', { status: 'suspended' });
+    await repository.removeMember('M002');
+
+    const flagged = await service.generatePaymentLinks('202610', { flagLeftMembers: true });
+    await repository.updateMember('M001', { status: 'active' });
+    const rejoined = await service.generatePaymentLinks('202610', { flagLeftMembers: true });
+
+    expect(flagged.left).toEqual(['M001', 'M002']);
+    expect(rejoined).toMatchObject({ left: [], rejoined: ['M001'] });
+    expect((await repository.getPaymentData('202610', 'M001'))?.member_left).toBe('');
+    expect((await repository.getPaymentData('202610', 'M002'))?.member_left).toBe('Y');
+  });
+
+  it("doesn't flag left members unless asked", async () => {
+    await service.generatePaymentLinks('202610');
+    await repository.removeMember('M002');
+
+    const summary = await service.generatePaymentLinks('202610');
+
+    expect(summary.left).toEqual([]);
+    expect((await repository.getPaymentData('202610', 'M002'))?.member_left).toBeFalsy();
+  });
+
+  it("reports members whose id can't be part of a trade number", async () => {
+    await repository.addMember(member('M-005'));
+
+    const summary = await service.generatePaymentLinks('202610');
+
+    expect(summary.invalid).toEqual(['M-005']);
+    expect(await repository.getPaymentData('202610', 'M-005')).toBeUndefined();
+  });
+});
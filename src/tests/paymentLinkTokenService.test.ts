@@ -0,0 +1,73 @@
+import config from '../configs';
+import { PaymentLinkTokenService } from '../services/paymentLinkTokenService';
+
+describe('PaymentLinkTokenService', () => {
+  let service: PaymentLinkTokenService;
+
+  beforeEach(() => {
+    config.paymentLink.secret = 'test-secret';
+    config.paymentLink.ttlDays = 45;
+    service = new PaymentLinkTokenService();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('verifies a token it signed', () => {
+    const result = service.verify(service.sign('M001', '202610', 500));
+
+    expect(result.valid).toBe(true);
+    expect(result.payload).toMatchObject({ memberId: 'M001', yyyymm: '202610', amount: 500 });
+  });
+
+  it('rejects a token with a changed payload', () => {
+    const [, signature] = service.sign('M001', '202610', 500).split('.');
+    const payload = Buffer.from(
+      JSON.stringify({ memberId: 'M001', yyyymm: '202610', amount: 1, expiresAt: 9999999999 }),
+    ).toString('base64url');
+
+    expect(service.verify(`${payload}.${signature}`)).toEqual({ valid: false, reason: 'invalid' });
+  });
+
+  it('rejects a token signed with another secret', () => {
+    config.paymentLink.secret = 'other-secret';
+    const token = new PaymentLinkTokenService().sign('M001', '202610', 500);
+
+    expect(service.verify(token)).toEqual({ valid: false, reason: 'invalid' });
+  });
+
+  it('rejects malformed tokens', () => {
+    expect(service.verify('')).toEqual({ valid: false, reason: 'invalid' });
+    expect(service.verify('no-signature')).toEqual({ valid: false, reason: 'invalid' });
+  });
+
+  it('returns the payload of an expired token so it can be reissued', () => {
+    jest.useFakeTimers({ now: new Date('2026-10-01T00:00:00Z') });
+    const token = service.sign('M001', '202610', 500);
+    jest.setSystemTime(new Date('2026-11-16T00:00:00Z'));
+
+    const result = service.verify(token);
+
+    expect(result).toMatchObject({ valid: false, reason: 'expired', payload: { memberId: 'M001', yyyymm: '202610' } });
+  });
+
+  it('keeps cancel tokens and payment tokens apart', () => {
+    const cancelToken = service.signCancel('M001', 'M0012026101a2b');
+    const paymentToken = service.sign('M001', '202610', 500);
+
+    expect(service.verifyCancel(cancelToken)).toEqual({
+      purpose: 'cancel',
+      memberId: 'M001',
+      merchantTradeNo: 'M0012026101a2b',
+    });
+    expect(service.verify(cancelToken)).toEqual({ valid: false, reason: 'invalid' });
+    expect(service.verifyCancel(paymentToken)).toBeUndefined();
+  });
+
+  it('refuses to sign without a secret', () => {
+    config.paymentLink.secret = '';
+
+    expect(() => new PaymentLinkTokenService().sign('M001', '202610', 500)).toThrow('PAYMENT_LINK_SECRET not set');
+  });
+});
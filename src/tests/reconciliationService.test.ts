@@ -0,0 +1,140 @@
+import { ECPayService } from '../services/ecpayService';
+import { LedgerService } from '../services/ledgerService';
+import { MemoryRepository } from '../services/memoryRepository';
+import { ReceiptService } from '../services/receiptService';
+import { ReconciliationService } from '../services/reconciliationService';
+import { QueryTradeInfo } from '../types/ecpayTypes';
+import { PaymentRecord, TradeNoRecord } from '../types/repositoryTypes';
+
+const record = (memberId: string, data: Partial<PaymentRecord> = {}): PaymentRecord =>
+  ({ member_id: memberId, member_email: `${memberId}@example.com`, amount_due: '500', ...data }) as PaymentRecord;
+
+const trade = (merchantTradeNo: string, data: Partial<TradeNoRecord> = {}): TradeNoRecord => ({
+  merchant_trade_no: merchantTradeNo,
+  member_id: 'M001',
+  yyyymm: '202610',
+  issued_at: '2026-10-01T00:00:00.000Z',
+  amount: '500',
+  payment_method: 'ALL',
+  covered_months: '',
+  subscribe: '',
+  status: 'pending',
+  paid_date: '',
+  ...data,
+});
+
+describe('ReconciliationService', () => {
+  let repository: MemoryRepository;
+  let tradeStatus: Record<string, Partial<QueryTradeInfo>>;
+  let recordPayment: jest.Mock;
+  let issueReceipt: jest.Mock;
+  let backfillPayments: jest.Mock;
+  let service: ReconciliationService;
+
+  beforeEach(() => {
+    repository = new MemoryRepository();
+    tradeStatus = {};
+    const ecPayService = {
+      queryECPay: jest.fn(async (merchantTradeNo: string) => ({ TradeStatus: '0', ...tradeStatus[merchantTradeNo] })),
+    } as unknown as ECPayService;
+    recordPayment = jest.fn();
+    issueReceipt = jest.fn();
+    backfillPayments = jest.fn().mockResolvedValue([]);
+    service = new ReconciliationService(
+      repository,
+      ecPayService,
+      { issueReceipt } as unknown as ReceiptService,
+      { recordPayment, backfillPayments } as unknown as LedgerService,
+    );
+  });
+
+  it('settles a trade ECPay reports as paid', async () => {
+    await repository.addPaymentRecords('202610', [record('M001', { unique_payment_link: 'M0012026101a2b' })]);
+    await repository.addIssuedTradeNo(trade('M0012026101a2b'));
+    tradeStatus['M0012026101a2b'] = { TradeStatus: '1', PaymentDate: '2026/10/31 23:59:00', TradeAmt: '500' };
+
+    const report = await service.reconcileMonth('202610');
+
+    expect(report.updated).toEqual([
+      { member_id: 'M001', merchantTradeNo: 'M0012026101a2b', paymentDate: '2026/10/31 23:59:00', tradeAmt: '500' },
+    ]);
+    expect(await repository.getPaymentData('202610', 'M001')).toMatchObject({ paid: 'Y', paid_amount: '500' });
+    expect((await repository.getIssuedTrades('M001', '202610'))[0].status).toBe('paid');
+    expect(recordPayment).toHaveBeenCalledWith('202610', 'M001', 'M0012026101a2b', {
+      paymentDate: '2026/10/31 23:59:00',
+      amount: 500,
+    });
+    expect(issueReceipt).toHaveBeenCalledWith('202610', 'M001');
+  });
+
+  it('finds the paid one among several issued trades', async () => {
+    await repository.addPaymentRecords('202610', [record('M001', { unique_payment_link: 'M0012026102c3d' })]);
+    await repository.addIssuedTradeNo(trade('M0012026101a2b'));
+    await repository.addIssuedTradeNo(trade('M0012026102c3d'));
+    tradeStatus['M0012026101a2b'] = { TradeStatus: '1', PaymentDate: '2026/10/02 10:00:00', TradeAmt: '500' };
+
+    await service.reconcileMonth('202610');
+
+    expect((await repository.getPaymentData('202610', 'M001'))?.unique_payment_link).toBe('M0012026101a2b');
+  });
+
+  it('reports pending trades and leaves paid rows alone', async () => {
+    await repository.addPaymentRecords('202610', [
+      record('M001', { unique_payment_link: 'M0012026101a2b' }),
+      record('M002', { unique_payment_link: 'M0022026101a2b', paid: 'Y' }),
+    ]);
+
+    const report = await service.reconcileMonth('202610');
+
+    expect(report.checked).toBe(1);
+    expect(report.pending).toEqual([{ member_id: 'M001', merchantTradeNo: 'M0012026101a2b' }]);
+    expect((await repository.getPaymentData('202610', 'M001'))?.paid).not.toBe('Y');
+  });
+
+  it('backfills ledger entries of rows paid before the run', async () => {
+    await repository.addPaymentRecords('202610', [
+      record('M001', { unique_payment_link: 'M0012026101a2b' }),
+      record('M002', { unique_payment_link: 'M0022026101a2b', paid: 'Y', paid_amount: '500' }),
+    ]);
+    tradeStatus['M0012026101a2b'] = { TradeStatus: '1', PaymentDate: '2026/10/02 10:00:00', TradeAmt: '500' };
+    backfillPayments.mockResolvedValue(['M0022026101a2b']);
+
+    const report = await service.reconcileMonth('202610');
+
+    expect(backfillPayments).toHaveBeenCalledWith('202610', [expect.objectContaining({ member_id: 'M002' })]);
+    expect(report.ledgerBackfilled).toEqual(['M0022026101a2b']);
+  });
+
+  it('marks every month of a prepayment trade paid', async () => {
+    await repository.addPaymentRecords('202610', [record('M001', { unique_payment_link: 'M0012026101a2b' })]);
+    await repository.addIssuedTradeNo(trade('M0012026101a2b', { covered_months: '202610,202611', amount: '1000' }));
+    tradeStatus['M0012026101a2b'] = { TradeStatus: '1', PaymentDate: '2026/10/02 10:00:00', TradeAmt: '1000' };
+
+    await service.reconcileMonth('202610');
+
+    expect(await repository.getPaymentData('202611', 'M001')).toMatchObject({
+      paid: 'Y',
+      unique_payment_link: 'M0012026101a2b',
+      amount_due: '500',
+    });
+  });
+
+  it('reconciles the previous month too, skipping months without a sheet', async () => {
+    await repository.addPaymentRecords('202609', [record('M001', { unique_payment_link: 'M0012026091a2b' })]);
+    tradeStatus['M0012026091a2b'] = { TradeStatus: '1', PaymentDate: '2026/09/30 23:59:00', TradeAmt: '500' };
+
+    const reports = await service.reconcileRecentMonths(new Date(2026, 9, 1, 2));
+
+    expect(reports.map((r) => r.yyyymm)).toEqual(['202609']);
+    expect((await repository.getPaymentData('202609', 'M001'))?.paid).toBe('Y');
+  });
+
+  it('reconciles December when run in January', async () => {
+    await repository.addPaymentRecords('202612', [record('M001')]);
+    await repository.addPaymentRecords('202701', [record('M001')]);
+
+    const reports = await service.reconcileRecentMonths(new Date(2027, 0, 15));
+
+    expect(reports.map((r) => r.yyyymm)).toEqual(['202612', '202701']);
+  });
+});
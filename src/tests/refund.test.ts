@@ -0,0 +1,154 @@
+import { APIGatewayProxyEvent } from 'aws-lambda';
+import config from '../configs';
+import { ApiHandler } from '../handler/apiHandler';
+import { ECPayService } from '../services/ecpayService';
+import { EInvoiceService } from '../services/einvoiceService';
+import { CreditAction, QueryTradeInfo } from '../types/ecpayTypes';
+import { PaymentRecord, PaymentRepository } from '../types/repositoryTypes';
+
+const refundEvent = (body: Record<string, unknown>): APIGatewayProxyEvent =>
+  ({
+    httpMethod: 'POST',
+    path: '/payment/refund',
+    headers: { 'x-api-key': 'admin-key' },
+    body: JSON.stringify(body),
+  }) as unknown as APIGatewayProxyEvent;
+
+describe('refund', () => {
+  let handler: ApiHandler;
+  let repository: PaymentRepository;
+  let creditAction: jest.SpyInstance;
+  let invalidInvoice: jest.SpyInstance;
+  let allowanceInvoice: jest.SpyInstance;
+
+  const paidRecord = (data: Partial<PaymentRecord> = {}): PaymentRecord =>
+    ({
+      member_id: 'M001',
+      member_email: 'M001@example.com',
+      unique_payment_link: 'M0012026101a2b',
+      paid: 'Y',
+      paid_date: '2026/10/01 12:00:00',
+      ...data,
+    }) as PaymentRecord;
+
+  beforeEach(async () => {
+    config.storage.backend = 'memory';
+    config.admin.apiKey = 'admin-key';
+    jest.spyOn(ECPayService.prototype, 'queryECPay').mockResolvedValue({
+      TradeStatus: '1',
+      PaymentType: 'Credit_CreditCard',
+      TradeAmt: '1000',
+      TradeNo: '2610011200000001',
+    } as QueryTradeInfo);
+    creditAction = jest
+      .spyOn(ECPayService.prototype, 'creditAction')
+      .mockImplementation(async (merchantTradeNo: string, tradeNo: string, action: CreditAction) => ({
+        MerchantID: '3002607',
+        MerchantTradeNo: merchantTradeNo,
+        TradeNo: tradeNo,
+        RtnCode: '1',
+        RtnMsg: action,
+      }));
+    jest.spyOn(EInvoiceService.prototype, 'isConfigured').mockReturnValue(true);
+    invalidInvoice = jest
+      .spyOn(EInvoiceService.prototype, 'invalidInvoice')
+      .mockResolvedValue({ RtnCode: 1, RtnMsg: 'OK', AllowanceNo: '' });
+    allowanceInvoice = jest
+      .spyOn(EInvoiceService.prototype, 'allowanceInvoice')
+      .mockResolvedValue({ RtnCode: 1, RtnMsg: 'OK', AllowanceNo: '2026100100000001' });
+
+    handler = new ApiHandler();
+    repository = (handler as any).paymentRepository;
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('of a trade paying several months', () => {
+    beforeEach(async () => {
+      const covered = { covered_months: '202610,202611' };
+      await repository.addPaymentRecords('202610', [
+        paidRecord({ ...covered, invoice_no: 'AB12345678', invoice_date: '2026-10-01 12:00:00' }),
+      ]);
+      await repository.addPaymentRecords('202611', [paidRecord(covered)]);
+    });
+
+    it('marks every month the trade paid and voids its invoice', async () => {
+      const response = await handler.handleRefund(
+        refundEvent({ yyyymm: '202611', memberId: 'M001', action: 'Refund' }),
+      );
+
+      expect(response.statusCode).toBe(200);
+      expect(JSON.parse(response.body).data).toMatchObject({ refundStatus: 'refunded', invoice: 'voided' });
+      expect(await repository.getPaymentData('202610', 'M001')).toMatchObject({
+        refund_status: 'refunded',
+        refund_amount: '1000',
+      });
+      expect(await repository.getPaymentData('202611', 'M001')).toMatchObject({
+        refund_status: 'refunded',
+        refund_amount: '',
+      });
+      expect(invalidInvoice).toHaveBeenCalledWith('AB12345678', '2026-10-01 12:00:00', expect.any(String));
+    });
+
+    it('refuses a partial refund', async () => {
+      const response = await handler.handleRefund(
+        refundEvent({ yyyymm: '202610', memberId: 'M001', action: 'Refund', amount: 500 }),
+      );
+
+      expect(response.statusCode).toBe(400);
+      expect(creditAction).not.toHaveBeenCalled();
+    });
+
+    it('leaves a covered month paid by another trade alone', async () => {
+      await repository.updatePaymentData('202611', 'M001', { unique_payment_link: 'M0012026119z9z' });
+
+      await handler.handleRefund(refundEvent({ yyyymm: '202610', memberId: 'M001', action: 'Cancel' }));
+
+      expect((await repository.getPaymentData('202611', 'M001'))?.refund_status).toBe('');
+    });
+  });
+
+  it('credits a partial refund with an invoice allowance', async () => {
+    await repository.addPaymentRecords('202610', [
+      paidRecord({ invoice_no: 'AB12345678', invoice_date: '2026-10-01 12:00:00' }),
+    ]);
+
+    const response = await handler.handleRefund(
+      refundEvent({ yyyymm: '202610', memberId: 'M001', action: 'Refund', amount: 300 }),
+    );
+
+    expect(JSON.parse(response.body).data.invoice).toBe('allowance 2026100100000001');
+    expect(allowanceInvoice).toHaveBeenCalledWith('AB12345678', '2026-10-01 12:00:00', {
+      customerEmail: 'M001@example.com',
+      itemName: config.ecpay.itemName,
+      amount: 300,
+    });
+    expect(invalidInvoice).not.toHaveBeenCalled();
+  });
+
+  it('finishes a Cancel whose N step failed with N only', async () => {
+    await repository.addPaymentRecords('202610', [paidRecord()]);
+    creditAction.mockImplementationOnce(async () => ({ RtnCode: '1', RtnMsg: 'E' }));
+    creditAction.mockImplementationOnce(async () => ({ RtnCode: '0', RtnMsg: 'N failed' }));
+
+    const failed = await handler.handleRefund(refundEvent({ yyyymm: '202610', memberId: 'M001', action: 'Cancel' }));
+    expect(failed.statusCode).toBe(400);
+    expect((await repository.getPaymentData('202610', 'M001'))?.refund_status).toBe('cancel_pending');
+
+    const resumed = await handler.handleRefund(refundEvent({ yyyymm: '202610', memberId: 'M001', action: 'Cancel' }));
+    expect(resumed.statusCode).toBe(200);
+    expect(creditAction.mock.calls.map((call) => call[2])).toEqual(['E', 'N', 'N']);
+    expect((await repository.getPaymentData('202610', 'M001'))?.refund_status).toBe('cancelled');
+  });
+
+  it('requires the admin key', async () => {
+    const response = await handler.handleRequest({
+      ...refundEvent({ yyyymm: '202610', memberId: 'M001', action: 'Refund' }),
+      headers: {},
+    });
+
+    expect(response.statusCode).toBe(401);
+  });
+});
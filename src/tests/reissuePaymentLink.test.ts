@@ -0,0 +1,80 @@
+import { APIGatewayProxyEvent } from 'aws-lambda';
+import config from '../configs';
+import { ApiHandler } from '../handler/apiHandler';
+import { EmailService } from '../services/emailService';
+import { PaymentLinkTokenService } from '../services/paymentLinkTokenService';
+import { PaymentRecord, PaymentRepository } from '../types/repositoryTypes';
+
+const reissueEvent = (body: Record<string, unknown>, headers: Record<string, string> = {}): APIGatewayProxyEvent =>
+  ({
+    httpMethod: 'POST',
+    path: '/payment/link/reissue',
+    headers,
+    body: JSON.stringify(body),
+  }) as unknown as APIGatewayProxyEvent;
+
+describe('payment link reissue', () => {
+  let handler: ApiHandler;
+  let repository: PaymentRepository;
+  let tokens: PaymentLinkTokenService;
+  let sendEmail: jest.SpyInstance;
+
+  beforeEach(async () => {
+    config.storage.backend = 'memory';
+    config.admin.apiKey = 'admin-key';
+    config.paymentLink.secret = 'test-secret';
+    sendEmail = jest
+      .spyOn(EmailService.prototype, 'sendEmail')
+      .mockResolvedValue({ totalEmails: 1, successCount: 1, failureCount: 0, results: [] });
+
+    handler = new ApiHandler();
+    repository = (handler as any).paymentRepository;
+    tokens = new PaymentLinkTokenService();
+    await repository.addPaymentRecords('202610', [
+      { member_id: 'M001', member_email: 'M001@example.com', amount_due: '500' } as PaymentRecord,
+    ]);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+  });
+
+  it('sends a new link for an expired one', async () => {
+    const expired = tokens.sign('M001', '202610', 500);
+    jest.useFakeTimers({ now: Date.now() + 365 * 24 * 60 * 60 * 1000, doNotFake: ['setTimeout'] });
+
+    const response = await handler.handleRequest(reissueEvent({ paymentLink: expired }));
+
+    expect(response.statusCode).toBe(200);
+    expect(sendEmail).toHaveBeenCalledWith(['M001@example.com'], expect.anything());
+    const record = await repository.getPaymentData('202610', 'M001');
+    expect(record?.payment_link_sent).toBe('Y');
+    expect(tokens.verify(record?.payment_link ?? '').valid).toBe(true);
+  });
+
+  it('refuses a link with a forged signature', async () => {
+    const [payload] = tokens.sign('M001', '202610', 500).split('.');
+
+    const response = await handler.handleRequest(reissueEvent({ paymentLink: `${payload}.forged` }));
+
+    expect(response.statusCode).toBe(403);
+    expect(sendEmail).not.toHaveBeenCalled();
+  });
+
+  it('needs the admin key to name a member and month', async () => {
+    const response = await handler.handleRequest(reissueEvent({ memberId: 'M001', yyyymm: '202610' }));
+
+    expect(response.statusCode).toBe(401);
+    expect(sendEmail).not.toHaveBeenCalled();
+  });
+
+  it('lets an admin name a member and month', async () => {
+    const response = await handler.handleRequest(
+      reissueEvent({ memberId: 'M001', yyyymm: '202610' }, { 'x-api-key': 'admin-key' }),
+    );
+
+    expect(response.statusCode).toBe(200);
+    expect(sendEmail).toHaveBeenCalledTimes(1);
+  });
+});
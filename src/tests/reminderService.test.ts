@@ -0,0 +1,155 @@
+import { APIGatewayProxyEvent } from 'aws-lambda';
+import config from '../configs';
+import { ApiHandler } from '../handler/apiHandler';
+import { EmailService } from '../services/emailService';
+import { EmailTemplateService } from '../services/emailTemplateService';
+import { MemoryRepository } from '../services/memoryRepository';
+import { ReminderService } from '../services/reminderService';
+import { TemplateService } from '../services/templateService';
+import { BatchEmailSentData } from '../types';
+import { MemberData, PaymentRecord } from '../types/repositoryTypes';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SENT_AT = new Date('2026-10-01T00:00:00Z');
+const daysAfterSent = (days: number) => new Date(SENT_AT.getTime() + days * DAY_MS);
+
+const member = (memberId: string, data: Partial<MemberData> = {}): MemberData =>
+  ({ member_id: memberId, member_email: `${memberId}@example.com`, member_name: memberId, ...data }) as MemberData;
+
+const record = (memberId: string, data: Partial<PaymentRecord> = {}): PaymentRecord =>
+  ({
+    member_id: memberId,
+    member_email: `${memberId}@example.com`,
+    payment_link_sent: 'Y',
+    payment_link_sent_at: SENT_AT.toISOString(),
+    ...data,
+  }) as PaymentRecord;
+
+describe('ReminderService', () => {
+  let repository: MemoryRepository;
+  let sendEmailBatch: jest.Mock;
+  let service: ReminderService;
+
+  const setup = async (members: MemberData[], records: PaymentRecord[]) => {
+    repository = new MemoryRepository({ members });
+    await repository.addPaymentRecords('202610', records);
+    sendEmailBatch = jest.fn(async (emails: BatchEmailSentData[]) => ({
+      results: emails.map((email) => ({ to: email.to, member_id: email.member_id, success: true })),
+    }));
+    const emailService = { sendEmailBatch } as unknown as EmailService;
+    const emailTemplateService = new EmailTemplateService(repository, repository, repository, new TemplateService());
+    service = new ReminderService(repository, repository, emailService, emailTemplateService);
+  };
+
+  beforeEach(() => {
+    config.reminders.scheduleDays = [7, 14, 21];
+  });
+
+  it('sends nothing before the first reminder is due', async () => {
+    await setup([member('M001')], [record('M001')]);
+
+    const summary = await service.sendReminders(daysAfterSent(6));
+
+    expect(summary.due).toEqual([]);
+    expect(sendEmailBatch).not.toHaveBeenCalled();
+  });
+
+  it('sends the first reminder and records it on the row', async () => {
+    await setup([member('M001')], [record('M001')]);
+    const now = daysAfterSent(7);
+
+    const summary = await service.sendReminders(now);
+
+    expect(summary.sent).toEqual([{ member_id: 'M001', yyyymm: '202610', reminder: 1 }]);
+    expect(await repository.getPaymentData('202610', 'M001')).toMatchObject({
+      reminder_count: '1',
+      last_reminded_at: now.toISOString(),
+    });
+  });
+
+  it('sends only the next reminder after a missed run and keeps the gap to the one after', async () => {
+    await setup([member('M001')], [record('M001')]);
+
+    expect((await service.sendReminders(daysAfterSent(20))).sent).toEqual([
+      { member_id: 'M001', yyyymm: '202610', reminder: 1 },
+    ]);
+    expect((await service.sendReminders(daysAfterSent(26))).due).toEqual([]);
+    expect((await service.sendReminders(daysAfterSent(27))).sent).toEqual([
+      { member_id: 'M001', yyyymm: '202610', reminder: 2 },
+    ]);
+  });
+
+  it('stops after the last reminder of the schedule', async () => {
+    await setup([member('M001')], [record('M001', { reminder_count: '3' })]);
+
+    expect((await service.sendReminders(daysAfterSent(60))).due).toEqual([]);
+  });
+
+  it('skips paid rows, rows without a send time, inactive and opted out members', async () => {
+    await setup(
+      [
+        member('M001'),
+        member('M002'),
+        member('M003', { status: 'suspended' }),
+        member('M004', { reminder_opt_out: 'Y' }),
+      ],
+      [record('M001', { paid: 'Y' }), record('M002', { payment_link_sent_at: '' }), record('M003'), record('M004')],
+    );
+
+    const summary = await service.sendReminders(daysAfterSent(7));
+
+    expect(summary.due).toEqual([]);
+    expect(summary.optedOut).toEqual([{ member_id: 'M004', yyyymm: '202610', reminder: 1 }]);
+    expect(sendEmailBatch).not.toHaveBeenCalled();
+  });
+
+  it('sends nothing on a dry run', async () => {
+    await setup([member('M001')], [record('M001')]);
+
+    const summary = await service.sendReminders(daysAfterSent(7), true);
+
+    expect(summary.due).toEqual([{ member_id: 'M001', yyyymm: '202610', reminder: 1 }]);
+    expect(sendEmailBatch).not.toHaveBeenCalled();
+    expect((await repository.getPaymentData('202610', 'M001'))?.reminder_count).toBe('');
+  });
+});
+
+describe('POST /payment/remind', () => {
+  const remindEvent = (headers: Record<string, string> = {}): APIGatewayProxyEvent =>
+    ({
+      httpMethod: 'POST',
+      path: '/payment/remind',
+      headers,
+      body: JSON.stringify({ dryRun: true }),
+    }) as unknown as APIGatewayProxyEvent;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    config.storage.backend = 'memory';
+    config.admin.apiKey = 'admin-key';
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('needs the admin key', async () => {
+    const sendReminders = jest.spyOn(ReminderService.prototype, 'sendReminders');
+
+    const response = await new ApiHandler().handleRequest(remindEvent());
+
+    expect(response.statusCode).toBe(401);
+    expect(sendReminders).not.toHaveBeenCalled();
+  });
+
+  it('runs the reminders for the admin', async () => {
+    const sendReminders = jest
+      .spyOn(ReminderService.prototype, 'sendReminders')
+      .mockResolvedValue({ dryRun: true, checked: 0, due: [], sent: [], failed: [], optedOut: [] });
+
+    const response = await new ApiHandler().handleRequest(remindEvent({ 'x-api-key': 'admin-key' }));
+
+    expect(response.statusCode).toBe(200);
+    expect(sendReminders).toHaveBeenCalledWith(expect.any(Date), true);
+  });
+});
@@ -0,0 +1,43 @@
+import { TemplateService } from '../services/templateService';
+
+describe('TemplateService', () => {
+  const service = new TemplateService();
+
+  describe('render', () => {
+    it('escapes {{name}} and inserts {{{name}}} as-is', () => {
+      expect(service.render('<p>{{ text }}</p>{{{html}}}', { text: '<b>"A&B"</b>', html: '<br>' })).toBe(
+        '<p>&lt;b&gt;&quot;A&amp;B&quot;&lt;/b&gt;</p><br>',
+      );
+    });
+
+    it('renders unknown names empty', () => {
+      expect(service.render('[{{missing}}][{{{missing}}}]', {})).toBe('[][]');
+    });
+
+    it('does not fill placeholders inside inserted values', () => {
+      const rendered = service.render('{{{form}}} {{name}}', {
+        form: '<input name="ItemName" value="{{name}}">',
+        name: '{{{form}}}',
+      });
+
+      expect(rendered).toBe('<input name="ItemName" value="{{name}}"> {{{form}}}');
+    });
+  });
+
+  it('posts exactly the signed parameters to ECPay', () => {
+    const html = service.renderPaymentRedirect(
+      'https://payment-stage.ecpay.com.tw/Cashier/AioCheckOut/V5',
+      { MerchantTradeNo: 'M0012026101a2b', ItemName: '會費 {{amount}} <script>', TotalAmount: 500 },
+      'en',
+    );
+
+    expect(html).toContain('<input type="hidden" name="ItemName" value="會費 {{amount}} &lt;script&gt;">');
+    expect(html).toContain('<input type="hidden" name="TotalAmount" value="500">');
+  });
+
+  it('fills text templates without escaping', () => {
+    expect(service.renderText('{{period}} dues & {{{name}}}', { period: '2026/10', name: '<A>' })).toBe(
+      '2026/10 dues & <A>',
+    );
+  });
+});
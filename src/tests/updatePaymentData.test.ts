@@ -0,0 +1,62 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { MemoryRepository } from '../services/memoryRepository';
+import { SqliteRepository } from '../services/sqliteRepository';
+import { PaymentRecord, PaymentRepository } from '../types/repositoryTypes';
+
+const tmpDir = mkdtempSync(join(tmpdir(), 'union-test-'));
+
+afterAll(() => {
+  rmSync(tmpDir, { recursive: true, force: true });
+});
+
+describe.each<[string, () => PaymentRepository]>([
+  ['MemoryRepository', () => new MemoryRepository()],
+  ['SqliteRepository', () => new SqliteRepository(join(tmpDir, `${Date.now()}-${Math.random()}.sqlite`))],
+])('%s updatePaymentData', (_, createRepository) => {
+  let repository: PaymentRepository;
+
+  beforeEach(async () => {
+    repository = createRepository();
+    await repository.addPaymentRecords('202610', [
+      {
+        member_id: 'M001',
+        member_email: 'M001@example.com',
+        paid: 'Y',
+        paid_date: '2026/10/01 12:00:00',
+      } as PaymentRecord,
+    ]);
+  });
+
+  it('writes when the precondition holds on the stored record', async () => {
+    const updated = await repository.updatePaymentData(
+      '202610',
+      'M001',
+      { payment_type: 'Credit_CreditCard' },
+      (current) => current.paid === 'Y',
+    );
+
+    expect(updated).toBe(true);
+    expect((await repository.getPaymentData('202610', 'M001'))?.payment_type).toBe('Credit_CreditCard');
+  });
+
+  it('leaves the record alone when the precondition fails', async () => {
+    const updated = await repository.updatePaymentData(
+      '202610',
+      'M001',
+      { paid: 'N', paid_date: '' },
+      (current) => current.paid !== 'Y',
+    );
+
+    expect(updated).toBe(false);
+    expect(await repository.getPaymentData('202610', 'M001')).toMatchObject({
+      paid: 'Y',
+      paid_date: '2026/10/01 12:00:00',
+    });
+  });
+
+  it('throws for a member without a record', async () => {
+    await expect(repository.updatePaymentData('202610', 'M999', { paid: 'Y' })).rejects.toThrow('not found');
+  });
+});
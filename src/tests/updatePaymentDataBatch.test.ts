@@ -0,0 +1,50 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { MemoryRepository } from '../services/memoryRepository';
+import { SqliteRepository } from '../services/sqliteRepository';
+import { PaymentRecord, PaymentRepository } from '../types/repositoryTypes';
+
+const tmpDir = mkdtempSync(join(tmpdir(), 'union-test-'));
+
+afterAll(() => {
+  rmSync(tmpDir, { recursive: true, force: true });
+});
+
+describe.each<[string, () => PaymentRepository]>([
+  ['MemoryRepository', () => new MemoryRepository()],
+  ['SqliteRepository', () => new SqliteRepository(join(tmpDir, `${Date.now()}-${Math.random()}.sqlite`))],
+])('%s updatePaymentDataBatch', (_, createRepository) => {
+  let repository: PaymentRepository;
+
+  beforeEach(async () => {
+    repository = createRepository();
+    await repository.addPaymentRecords('202610', [
+      { member_id: 'M001', member_email: 'M001@example.com' } as PaymentRecord,
+      { member_id: 'M002', member_email: 'M002@example.com', paid: 'Y' } as PaymentRecord,
+    ]);
+  });
+
+  it('updates the members found and reports the rest', async () => {
+    const result = await repository.updatePaymentDataBatch(
+      '202610',
+      ['M001', 'M999', 'M002'],
+      [{ payment_link_sent: 'Y' }, { payment_link_sent: 'Y' }, { payment_link_sent: 'N' }],
+    );
+
+    expect(result).toEqual({ updated: ['M001', 'M002'], notFound: ['M999'] });
+    expect((await repository.getPaymentData('202610', 'M001'))?.payment_link_sent).toBe('Y');
+    expect(await repository.getPaymentData('202610', 'M002')).toMatchObject({ payment_link_sent: 'N', paid: 'Y' });
+    expect(await repository.getPaymentData('202610', 'M999')).toBeUndefined();
+  });
+
+  it('throws for a month without a sheet', async () => {
+    await expect(repository.updatePaymentDataBatch('202611', ['M001'], [{ paid: 'Y' }])).rejects.toThrow(
+      'month:202611 not found',
+    );
+  });
+
+  it('throws when member ids and data differ in length', async () => {
+    await expect(repository.updatePaymentDataBatch('202610', ['M001', 'M002'], [{ paid: 'Y' }])).rejects.toThrow();
+  });
+});
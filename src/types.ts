@@ -1,3 +1,5 @@
+import { MemberData } from './types/repositoryTypes';
+
 export interface EmailConfig {
   host: string;
   port: number;
@@ -23,6 +25,7 @@ export interface BatchEmailSentData {
   member_id: string;
   subject: string;
   text: string;
+  html?: string;
   attachments?: Array<{
     filename: string;
     content: string | Buffer;
@@ -56,3 +59,102 @@ export interface HelloResponse extends ApiResponse {
   timestamp: string;
   version: string;
 }
+
+export interface ReconciliationReport {
+  yyyymm: string;
+  checked: number;
+  updated: Array<{
+    member_id: string;
+    merchantTradeNo: string;
+    paymentDate: string;
+    tradeAmt: string;
+  }>;
+  pending: Array<{
+    member_id: string;
+    merchantTradeNo: string;
+  }>;
+  failed: Array<{
+    member_id: string;
+    merchantTradeNo: string;
+    error: string;
+  }>;
+  // Trades paid earlier whose missing ledger entry was recorded
+  ledgerBackfilled: string[];
+}
+
+export type MemberChangeResult =
+  | { success: true; member: MemberData }
+  | { success: false; reason: 'invalid' | 'not_found' | 'duplicate'; message: string };
+
+// Result of (re)generating a month's payment links, member ids per outcome
+export interface PaymentLinkGenerationSummary {
+  yyyymm: string;
+  added: string[];
+  skipped: string[]; // already had a record
+  left: string[]; // flagged member_left, no longer an active member
+  rejoined: string[]; // flagged before, active again
+  invalid: string[]; // no link, member_id can't be part of a MerchantTradeNo (1-10 alphanumeric characters)
+}
+
+// A member's unpaid months up to a month, for the arrears report and "pay all outstanding"
+export interface MemberArrears {
+  member_id: string;
+  member_email: string;
+  months: Array<{ yyyymm: string; amount_due: number }>;
+  total: number;
+}
+
+export interface EmailContent {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+// An email template and where each of its parts came from (Email_templates sheet, EMAIL_TEMPLATE_DIR or built-in)
+export interface EmailTemplate extends EmailContent {
+  name: string;
+  sources: Record<keyof EmailContent, 'sheet' | 'file' | 'built-in'>;
+}
+
+// A rendered template, for the board to check its wording
+export interface EmailTemplatePreview extends EmailTemplate {
+  unknownFields: string[]; // placeholders that aren't merge fields, rendered blank
+}
+
+export interface LedgerTotals {
+  count: number; // payments, refunds are not counted
+  gross: number;
+  fees: number;
+  net: number;
+  refunds: number; // amount refunded, already taken off gross and net
+}
+
+// Payments received and refunds made in a month (by date), for the financial report
+export interface LedgerSummary {
+  yyyymm: string;
+  total: LedgerTotals;
+  byPaymentType: Record<string, LedgerTotals>;
+}
+
+// A member's n-th reminder of a month
+export interface ReminderEntry {
+  member_id: string;
+  yyyymm: string;
+  reminder: number;
+}
+
+// Reminders of one run, due = sent + failed (or the ones that would be sent in a dry run)
+export interface ReminderRunSummary {
+  dryRun: boolean;
+  checked: number; // unpaid rows whose payment link was emailed
+  due: ReminderEntry[];
+  sent: ReminderEntry[];
+  failed: ReminderEntry[];
+  optedOut: ReminderEntry[]; // due but the member opted out, suspended members are skipped silently
+}
+
+// Input of EventBridge schedule rules (see template.yaml), not an API Gateway request
+export interface ScheduledTaskEvent {
+  task: 'reconcile' | 'remind';
+  yyyymm?: string;
+}
@@ -1,3 +1,5 @@
+import { Locale } from '../templates/paymentRedirectTemplate';
+
 export type PaymentMethod = 'ALL' | 'Credit' | 'WebATM' | 'ATM' | 'CVS' | 'BARCODE';
 
 export interface CreatePaymentParams {
@@ -7,19 +9,98 @@ export interface CreatePaymentParams {
   itemName: string;
   returnURL: string;
   clientBackURL?: string;
+  paymentInfoURL?: string;
   choosePayment?: PaymentMethod;
+  period?: PeriodPaymentParams;
+  locale?: Locale; // language of the redirect page, zh-TW by default
+}
+
+// Credit card periodic (recurring) authorization, ChoosePayment is forced to Credit
+export interface PeriodPaymentParams {
+  periodAmount: number; // must equal totalAmount
+  periodType: 'D' | 'M' | 'Y';
+  frequency: number;
+  execTimes: number;
+  periodReturnURL: string;
+}
+
+// PeriodReturnURL notification, sent for every periodic charge after the first one
+export interface PeriodCallback {
+  MerchantID: string;
+  MerchantTradeNo: string;
+  RtnCode: string;
+  RtnMsg: string;
+  PeriodType: string;
+  Frequency: string;
+  ExecTimes: string;
+  Amount: string;
+  Gwsr: string;
+  ProcessDate: string;
+  AuthCode: string;
+  FirstAuthAmount: string;
+  TotalSuccessTimes: string;
+  CheckMacValue: string;
+  [key: string]: string;
 }
 
+// Credit card DoAction: C = capture, R = refund, E = cancel capture, N = abandon authorization
+export type CreditAction = 'C' | 'R' | 'E' | 'N';
+
+export interface CreditActionResult {
+  MerchantID: string;
+  MerchantTradeNo: string;
+  TradeNo: string;
+  RtnCode: string;
+  RtnMsg: string;
+}
+
+export type PeriodAction = 'ReAuth' | 'Cancel';
+
+export interface PeriodActionResult {
+  MerchantID: string;
+  MerchantTradeNo: string;
+  RtnCode: string;
+  RtnMsg: string;
+}
+
+// ECPay posts the callback form-encoded, so every field arrives as a string.
+// Fields not listed here (SimulatePaid, StoreID, CustomField1~4...) are still part of CheckMacValue.
 export interface PaymentCallback {
   MerchantID: string;
   MerchantTradeNo: string;
   TradeNo: string;
-  RtnCode: number;
+  RtnCode: string;
   RtnMsg: string;
   TradeAmt: string;
   PaymentDate: string;
   PaymentType: string;
   CheckMacValue: string;
+  [key: string]: string;
+}
+
+// PaymentInfoURL notification, sent when an ATM virtual account / CVS code / barcode has been issued
+export interface PaymentInfoCallback {
+  MerchantID: string;
+  MerchantTradeNo: string;
+  StoreID: string;
+  RtnCode: string;
+  RtnMsg: string;
+  TradeNo: string;
+  TradeAmt: string;
+  PaymentType: string;
+  TradeDate: string;
+  ExpireDate: string;
+  CheckMacValue: string;
+  // ATM
+  BankCode?: string;
+  vAccount?: string;
+  // CVS
+  PaymentNo?: string;
+  // BARCODE
+  Barcode1?: string;
+  Barcode2?: string;
+  Barcode3?: string;
+  [key: string]: string | undefined;
 }
 
 export interface QueryTradeInfo {
@@ -41,3 +122,26 @@ export interface QueryTradeInfo {
   CustomField4: string;
   CheckMacValue: string;
 }
+
+export interface IssueInvoiceParams {
+  relateNumber: string; // unique per invoice, max 30 chars
+  customerId: string;
+  customerEmail: string;
+  itemName: string;
+  amount: number;
+}
+
+export interface IssueInvoiceResult {
+  RtnCode: number;
+  RtnMsg: string;
+  InvoiceNo: string;
+  InvoiceDate: string;
+  RandomNumber: string;
+}
+
+// Invalid (void a whole invoice) or Allowance (credit part of it) result
+export interface InvoiceAdjustmentResult {
+  RtnCode: number;
+  RtnMsg: string;
+  AllowanceNo: string; // blank for a voided invoice
+}
@@ -0,0 +1,395 @@
+/**
+ * Records kept by the storage backend (Google Sheets, SQLite or in-memory, see STORAGE_BACKEND)
+ * and the repository interfaces every backend implements.
+ * A *_FIELDS list is the column order of its record (sheet header row / table columns).
+ */
+
+export const MEMBER_STATUSES = ['active', 'suspended'] as const;
+export type MemberStatus = (typeof MEMBER_STATUSES)[number];
+
+export interface MemberData {
+  member_id: string;
+  member_email: string;
+  member_name: string;
+  member_phone: string;
+  join_date: string; // yyyy-MM-dd
+  status: MemberStatus; // blank (hand-kept rows) reads as active, only active members are billed
+  dues_tier: string;
+  dues_amount: string; // optional per-member override of the tier amount
+  reminder_opt_out: string; // Y = asked not to get payment reminders
+}
+
+export const MEMBER_FIELDS: (keyof MemberData)[] = [
+  'member_id',
+  'member_email',
+  'member_name',
+  'member_phone',
+  'join_date',
+  'status',
+  'dues_tier',
+  'dues_amount',
+  'reminder_opt_out',
+];
+
+export interface DuesTierData {
+  amount: number;
+  item_name: string;
+}
+
+// Columns of a dues tier row, the tier name keys DuesTierData
+export const DUES_TIER_FIELDS = ['dues_tier', 'amount', 'item_name'];
+
+export interface PaymentRecord {
+  member_id: string;
+  member_email: string;
+  payment_link: string | undefined;
+  payment_link_sent: string | undefined;
+  unique_payment_link: string | undefined;
+  paid: string | undefined;
+  paid_date: string | undefined;
+  invoice_no: string | undefined;
+  invoice_date: string | undefined;
+  paid_amount: string | undefined;
+  dues_tier: string | undefined;
+  amount_due: string | undefined;
+  item_name: string | undefined;
+  payment_type: string | undefined;
+  payment_info: string | undefined;
+  payment_expire_date: string | undefined;
+  refund_status: string | undefined; // refunded | cancelled | cancel_pending (Cancel stopped between E and N)
+  refund_amount: string | undefined;
+  refund_date: string | undefined;
+  covered_months: string | undefined; // comma separated yyyymm list of a multi-month prepayment trade
+  member_left: string | undefined; // Y = no longer in the member list when the month's links were last generated
+  payment_link_sent_at: string | undefined; // ISO time the payment link email went out, reminders count from it
+  reminder_count: string | undefined;
+  last_reminded_at: string | undefined;
+  invoice_relate_number: string | undefined; // RelateNumber of an e-invoice being issued, saved before the request
+}
+
+export const PAYMENT_RECORD_FIELDS: (keyof PaymentRecord)[] = [
+  'member_id',
+  'member_email',
+  'payment_link',
+  'payment_link_sent',
+  'unique_payment_link',
+  'paid',
+  'paid_date',
+  'invoice_no',
+  'invoice_date',
+  'paid_amount',
+  'dues_tier',
+  'amount_due',
+  'item_name',
+  'payment_type',
+  'payment_info',
+  'payment_expire_date',
+  'refund_status',
+  'refund_amount',
+  'refund_date',
+  'covered_months',
+  'member_left',
+  'payment_link_sent_at',
+  'reminder_count',
+  'last_reminded_at',
+  'invoice_relate_number',
+];
+
+export interface SubscriptionRecord {
+  member_id: string;
+  member_email: string;
+  merchant_trade_no: string;
+  period_amount: string;
+  status: string; // pending (form issued) | active (first charge succeeded) | cancelled
+  created_at: string;
+  cancelled_at: string;
+}
+
+export const SUBSCRIPTION_FIELDS: (keyof SubscriptionRecord)[] = [
+  'member_id',
+  'member_email',
+  'merchant_trade_no',
+  'period_amount',
+  'status',
+  'created_at',
+  'cancelled_at',
+];
+
+/**
+ * Every MerchantTradeNo issued for a member's month, with the form it was issued for.
+ * Records issued before the form details were recorded only have the first four fields.
+ */
+export interface TradeNoRecord {
+  merchant_trade_no: string;
+  member_id: string;
+  yyyymm: string;
+  issued_at: string;
+  amount: string;
+  payment_method: string;
+  covered_months: string;
+  subscribe: string; // Y = credit card periodic authorization
+  status: 'pending' | 'paid' | '';
+  paid_date: string;
+}
+
+export const TRADE_NO_FIELDS: (keyof TradeNoRecord)[] = [
+  'merchant_trade_no',
+  'member_id',
+  'yyyymm',
+  'issued_at',
+  'amount',
+  'payment_method',
+  'covered_months',
+  'subscribe',
+  'status',
+  'paid_date',
+];
+
+/**
+ * One confirmed payment (a periodic authorization has one per charge) with what ECPay kept as fees,
+ * or the refund / cancellation of one, whose amounts are negative
+ */
+export interface LedgerRecord {
+  merchant_trade_no: string;
+  trade_no: string; // ECPay TradeNo
+  member_id: string;
+  yyyymm: string; // dues month the payment is for
+  payment_date: string;
+  payment_type: string;
+  gross_amount: string;
+  fee: string;
+  net_amount: string;
+  recorded_at: string;
+  entry_type: string; // payment (blank on older entries) | refund | cancel
+}
+
+export const LEDGER_FIELDS: (keyof LedgerRecord)[] = [
+  'merchant_trade_no',
+  'trade_no',
+  'member_id',
+  'yyyymm',
+  'payment_date',
+  'payment_type',
+  'gross_amount',
+  'fee',
+  'net_amount',
+  'recorded_at',
+  'entry_type',
+];
+
+/**
+ * One field a write changes, appended and never updated. Every write appends entries of the fields it is
+ * about to change (pending) before writing, and entries confirming what it changed after.
+ */
+export interface AuditRecord {
+  timestamp: string;
+  request_id: string;
+  actor: string; // admin, ecpay (callbacks), reconciliation, member (payment link) or system
+  member_id: string;
+  yyyymm: string; // blank for member and subscription records
+  field: string; // blank on an entry confirming the write as a whole
+  old_value: string;
+  new_value: string;
+  entity: string; // payment, member, trade or subscription (blank on entries written before it was recorded)
+  entity_id: string; // merchant_trade_no of a trade or subscription
+  write_id: string;
+  status: string; // pending, or how the write ended: written, unchanged, skipped (precondition failed) or failed
+}
+
+export const AUDIT_FIELDS: (keyof AuditRecord)[] = [
+  'timestamp',
+  'request_id',
+  'actor',
+  'member_id',
+  'yyyymm',
+  'field',
+  'old_value',
+  'new_value',
+  'entity',
+  'entity_id',
+  'write_id',
+  'status',
+];
+
+/**
+ * Email wording edited by the board (Email_templates sheet), blank parts keep the default wording
+ */
+export interface EmailTemplateRecord {
+  name: string;
+  subject: string;
+  text: string;
+  html: string;
+}
+
+export const EMAIL_TEMPLATE_FIELDS: (keyof EmailTemplateRecord)[] = ['name', 'subject', 'text', 'html'];
+
+/**
+ * Outcome per member of a batch update, a missing member doesn't fail the rest of the batch
+ */
+export interface PaymentBatchUpdateResult {
+  updated: string[];
+  notFound: string[];
+}
+
+/**
+ * Schema check of one sheet / table and the columns migration added to it
+ */
+export interface SchemaMigrationResult {
+  name: string;
+  added: string[];
+  errors: string[];
+  warnings: string[];
+}
+
+export interface SchemaMigrator {
+  /**
+   * Add the columns missing from existing sheets / tables without touching their data
+   */
+  migrateSchema(): Promise<SchemaMigrationResult[]>;
+}
+
+export interface StorageReadiness {
+  backend: 'sheets' | 'sqlite' | 'memory';
+  ready: boolean;
+  message: string;
+}
+
+export interface StorageLifecycle {
+  /**
+   * Load what the backend needs before serving requests (e.g. spreadsheet metadata).
+   * Called again it's a no-op until cached metadata expires, a failed load is retried.
+   */
+  initialize(): Promise<void>;
+  /**
+   * Initialize if needed and report whether requests can be served, never throws
+   */
+  getReadiness(): Promise<StorageReadiness>;
+}
+
+export interface AuditRepository {
+  addAuditRecords(records: AuditRecord[]): Promise<void>;
+
+  /**
+   * A member's audit entries, oldest first
+   */
+  getAuditRecords(memberId: string): Promise<AuditRecord[]>;
+}
+
+export interface EmailTemplateRepository {
+  getEmailTemplates(): Promise<EmailTemplateRecord[]>;
+}
+
+export interface MemberRepository {
+  /**
+   * Every member whatever the status, with a dues tier (config default when blank)
+   */
+  getAllMembers(): Promise<MemberData[]>;
+
+  addMember(member: MemberData): Promise<void>;
+
+  /**
+   * Throws when the member doesn't exist
+   */
+  updateMember(memberId: string, data: Partial<MemberData>, onRead?: (current: MemberData) => void): Promise<void>;
+
+  /**
+   * Throws when the member doesn't exist
+   */
+  removeMember(memberId: string, onRead?: (current: MemberData) => void): Promise<void>;
+
+  /**
+   * Dues tiers (full_time, part_time, retired, student...), empty when none are defined
+   */
+  getDuesTiers(): Promise<Map<string, DuesTierData>>;
+}
+
+/**
+ * Monthly payment records are keyed by yyyymm + member_id.
+ * Partial updates only write the fields that are not undefined, '' clears a field.
+ * Writes taking onRead call it with the record as the write read it right before writing (undefined when
+ * an upsert creates it), so the audit log knows the values the write replaced.
+ */
+export interface PaymentRepository {
+  /**
+   * Whether the month was generated (has a sheet / any record)
+   */
+  hasMonth(yyyymm: string): Promise<boolean>;
+
+  /**
+   * Every generated month (yyyymm), oldest first
+   */
+  getMonths(): Promise<string[]>;
+
+  /**
+   * Records of a month, throws when the month was never generated
+   */
+  getAllPaymentDatas(yyyymm: string): Promise<PaymentRecord[]>;
+
+  /**
+   * A member's record of a month, undefined when the month or the member's record doesn't exist
+   */
+  getPaymentData(yyyymm: string, memberId: string): Promise<PaymentRecord | undefined>;
+
+  /**
+   * Append records, creating the month when needed
+   */
+  addPaymentRecords(yyyymm: string, records: PaymentRecord[]): Promise<void>;
+
+  /**
+   * Throws when the month or the member's record doesn't exist.
+   * With a precondition, data is only written if it holds on the record as stored right before the
+   * write, false is returned otherwise (e.g. not to mark a month a concurrent callback just paid unpaid).
+   */
+  updatePaymentData(
+    yyyymm: string,
+    memberId: string,
+    data: Partial<PaymentRecord>,
+    precondition?: (current: PaymentRecord) => boolean,
+  ): Promise<boolean>;
+  updatePaymentDataBatch(
+    yyyymm: string,
+    memberIds: string[],
+    datas: Partial<PaymentRecord>[],
+    onRead?: (current: PaymentRecord) => void,
+  ): Promise<PaymentBatchUpdateResult>;
+
+  /**
+   * Update the member's record, creating the month and the record if they don't exist yet
+   */
+  upsertPaymentData(
+    yyyymm: string,
+    memberId: string,
+    memberEmail: string,
+    data: Partial<PaymentRecord>,
+    onRead?: (current: PaymentRecord | undefined) => void,
+  ): Promise<void>;
+
+  getIssuedTrades(memberId: string, yyyymm: string): Promise<TradeNoRecord[]>;
+  addIssuedTradeNo(record: TradeNoRecord): Promise<void>;
+  updateIssuedTrade(
+    merchantTradeNo: string,
+    data: Partial<TradeNoRecord>,
+    onRead?: (current: TradeNoRecord) => void,
+  ): Promise<void>;
+
+  getSubscriptions(): Promise<SubscriptionRecord[]>;
+  addSubscription(record: SubscriptionRecord): Promise<void>;
+  updateSubscription(
+    merchantTradeNo: string,
+    data: Partial<SubscriptionRecord>,
+    onRead?: (current: SubscriptionRecord) => void,
+  ): Promise<void>;
+
+  getLedgerRecords(): Promise<LedgerRecord[]>;
+  addLedgerRecord(record: LedgerRecord): Promise<void>;
+}
+
+/**
+ * Everything a storage backend implements
+ */
+export type Repository = PaymentRepository &
+  MemberRepository &
+  SchemaMigrator &
+  AuditRepository &
+  EmailTemplateRepository &
+  StorageLifecycle;